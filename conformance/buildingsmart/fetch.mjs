@@ -0,0 +1,48 @@
+// Vendors the official IDS test cases of buildingSMART/IDS into conformance/buildingsmart
+//
+// Fetches one revision (branch, tag or commit, "development" by default) without history, then copies
+// Documentation/ImplementersDocumentation/TestCases/<facet>/ and the repository LICENSE, and writes SOURCE
+// with the repository URL and the commit hash git resolved. Previously vendored facet folders are replaced.
+//
+// Usage: npm run test:ids:fetch [-- <revision>] [-- --repository <url>]
+import { execFileSync } from 'node:child_process';
+import { cpSync, mkdtempSync, readdirSync, rmSync, statSync, writeFileSync, existsSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const TARGET = dirname(fileURLToPath(import.meta.url));
+const TESTCASES = 'Documentation/ImplementersDocumentation/TestCases';
+
+const args = process.argv.slice(2);
+const repositoryIndex = args.indexOf('--repository');
+const repository = repositoryIndex >= 0 ? args.splice(repositoryIndex, 2)[1] : 'https://github.com/buildingSMART/IDS';
+const revision = args[0] || 'development';
+
+const checkout = mkdtempSync(join(tmpdir(), 'ids-testcases-'));
+const git = (...gitArgs) => execFileSync('git', ['-C', checkout, ...gitArgs], { encoding: 'utf8', stdio: ['ignore', 'pipe', 'inherit'] }).trim();
+
+try {
+  git('init', '--quiet');
+  git('remote', 'add', 'origin', repository);
+  git('sparse-checkout', 'set', TESTCASES);
+  git('fetch', '--quiet', '--depth', '1', 'origin', revision);
+  git('checkout', '--quiet', 'FETCH_HEAD');
+  const commit = git('rev-parse', 'FETCH_HEAD');
+
+  const source = join(checkout, TESTCASES);
+  if (!existsSync(source)) throw new Error(`${TESTCASES} not found at ${revision}`);
+  if (!existsSync(join(checkout, 'LICENSE'))) throw new Error(`LICENSE not found at ${revision}`);
+
+  for (const entry of readdirSync(TARGET)) {
+    if (statSync(join(TARGET, entry)).isDirectory()) rmSync(join(TARGET, entry), { recursive: true });
+  }
+  const facets = readdirSync(source).filter(entry => statSync(join(source, entry)).isDirectory());
+  for (const facet of facets) cpSync(join(source, facet), join(TARGET, facet), { recursive: true });
+  cpSync(join(checkout, 'LICENSE'), join(TARGET, 'LICENSE'));
+  writeFileSync(join(TARGET, 'SOURCE'), `${repository} ${commit}\n`);
+
+  console.log(`Vendored ${facets.length} facet folders from ${repository} at ${commit}`);
+} finally {
+  rmSync(checkout, { recursive: true, force: true });
+}
@@ -0,0 +1,327 @@
+// IDS conformance runner - Runs IDS test cases through IDSParser + IDSAuditEngine under Node with web-ifc
+//
+// A test case is a pair <facet>/<pass|fail>-<description>.ids + .ifc, the layout of the buildingSMART
+// IDS test cases (Documentation/ImplementersDocumentation/TestCases). The prefix is the expected outcome
+// of the IFC file against the whole IDS.
+//
+// Every .ids file found under the folder, test case or not, and under conformance/ids-corpus is also
+// checked for a lossless parseIDS -> serializeIDS -> parseIDS round trip. IDS 0.9 requirement minOccurs/maxOccurs
+// are compared as the cardinality they stand for. A reject-<description>.ids file must make serializeIDS throw.
+//
+// The IDS generated by generateIDS from each .ifc file of the test cases is audited against the same
+// model, after a serializeIDS -> parseIDS round trip as on export: every specification must pass, and every
+// property the audit reads in the model must be required or allowed by the generated IDS.
+//
+// Each conformance/lint/<description>.ids is run through lintIDS, the diagnostics must be the
+// "<line>:<column> <code>" list of <description>.json.
+//
+// Each conformance/matrix/<description>.csv is imported as in the matrix import panel: the guessed column
+// mapping, the phases and the "<row> <message>" issues must be those of <description>.json, converted with
+// its options, and the serialized IDS must be <description>.ids.
+//
+// A folder of vendored test cases, such as conformance/buildingsmart, names its origin in SOURCE (repository URL
+// and commit) next to the LICENSE of that repository. The report starts with that origin.
+//
+// Usage: npm run test:ids [-- <testcases dir>] [-- --out report.md]
+import { readdirSync, readFileSync, writeFileSync, existsSync, statSync } from 'node:fs';
+import { join, dirname, basename, resolve, relative } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { isDeepStrictEqual } from 'node:util';
+import { JSDOM } from 'jsdom';
+import { createServer } from 'vite';
+import * as WebIFC from 'web-ifc';
+
+const ROOT = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+
+const args = process.argv.slice(2);
+const outIndex = args.indexOf('--out');
+const outFile = outIndex >= 0 ? args.splice(outIndex, 2)[1] : null;
+const casesDir = resolve(args[0] || join(ROOT, 'conformance', 'testcases'));
+const corpusDir = join(ROOT, 'conformance', 'ids-corpus');
+const lintDir = join(ROOT, 'conformance', 'lint');
+const matrixDir = join(ROOT, 'conformance', 'matrix');
+const officialDir = join(ROOT, 'conformance', 'buildingsmart');
+
+// IDSParser relies on the browser DOMParser
+globalThis.DOMParser = new JSDOM('').window.DOMParser;
+
+function findCases(dir) {
+  const cases = [];
+  for (const facet of readdirSync(dir).sort()) {
+    const facetDir = join(dir, facet);
+    if (!statSync(facetDir).isDirectory()) continue;
+
+    for (const file of readdirSync(facetDir).sort()) {
+      const match = /^(pass|fail)-(.+)\.ids$/.exec(file);
+      if (!match) continue;
+      const ifcPath = join(facetDir, file.replace(/\.ids$/, '.ifc'));
+      if (!existsSync(ifcPath)) continue;
+      cases.push({ facet, name: file.replace(/\.ids$/, ''), expected: match[1], idsPath: join(facetDir, file), ifcPath });
+    }
+  }
+  return cases;
+}
+
+function findIdsFiles(dir) {
+  const files = [];
+  for (const entry of readdirSync(dir).sort()) {
+    const path = join(dir, entry);
+    if (statSync(path).isDirectory()) files.push(...findIdsFiles(path));
+    else if (entry.endsWith('.ids')) files.push(path);
+  }
+  return files;
+}
+
+// Path of the first difference between two parsed IDS files
+function findDifference(a, b, path = '') {
+  if (isDeepStrictEqual(a, b)) return null;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return `${path || '<root>'}: ${JSON.stringify(a)} -> ${JSON.stringify(b)}`;
+  }
+  for (const key of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    const difference = findDifference(a[key], b[key], path ? `${path}.${key}` : key);
+    if (difference) return difference;
+  }
+  return `${path || '<root>'}: shape differs`;
+}
+
+// IDS 1.0 only has the cardinality, e.g. an IDS 0.9 maxOccurs="1" is written as required
+const CARDINALITY_OCCURS = {
+  required: { minOccurs: 1, maxOccurs: 'unbounded' },
+  optional: { minOccurs: 0, maxOccurs: 'unbounded' },
+  prohibited: { minOccurs: 0, maxOccurs: 0 },
+};
+
+function withCardinalityOccurs(ids) {
+  return {
+    ...ids,
+    specifications: ids.specifications.map(spec => ({
+      ...spec,
+      requirements: spec.requirements.map(requirement => ({ ...requirement, ...CARDINALITY_OCCURS[requirement.cardinality] })),
+    })),
+  };
+}
+
+function checkRoundTrip(parseIDS, serializeIDS, idsPath) {
+  const expectError = basename(idsPath).startsWith('reject-');
+  try {
+    const parsed = parseIDS(readFileSync(idsPath, 'utf8'));
+    let xml;
+    try {
+      xml = serializeIDS(parsed);
+    } catch (e) {
+      if (expectError) return { path: idsPath, difference: null };
+      throw e;
+    }
+    if (expectError) return { path: idsPath, difference: 'serialized, expected an error' };
+    return { path: idsPath, difference: findDifference(withCardinalityOccurs(parsed), withCardinalityOccurs(parseIDS(xml))) };
+  } catch (e) {
+    return { path: idsPath, difference: `error: ${e instanceof Error ? e.message : String(e)}` };
+  }
+}
+
+async function checkLint(lintIDS, idsPath) {
+  try {
+    const expected = JSON.parse(readFileSync(idsPath.replace(/\.ids$/, '.json'), 'utf8'));
+    const actual = (await lintIDS(readFileSync(idsPath, 'utf8'))).map(d => `${d.line}:${d.column} ${d.code}`);
+    return { path: idsPath, difference: isDeepStrictEqual(actual, expected) ? null : `expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}` };
+  } catch (e) {
+    return { path: idsPath, difference: `error: ${e instanceof Error ? e.message : String(e)}` };
+  }
+}
+
+async function checkMatrix(modules, csvPath) {
+  const { readMatrixFile, guessMatrixMapping, getMatrixPhases, convertMatrix, serializeIDS } = modules;
+  try {
+    const expected = JSON.parse(readFileSync(csvPath.replace(/\.csv$/, '.json'), 'utf8'));
+    const table = await readMatrixFile(new File([readFileSync(csvPath)], basename(csvPath)));
+    const mapping = guessMatrixMapping(table.headers);
+    const { ids, issues } = await convertMatrix(table, mapping, { title: basename(csvPath, '.csv'), ...expected.options });
+    const actual = { mapping, phases: getMatrixPhases(table, mapping), issues: issues.map(issue => `${issue.row} ${issue.message}`) };
+
+    for (const key of Object.keys(actual)) {
+      if (!isDeepStrictEqual(actual[key], expected[key])) {
+        return { path: csvPath, difference: `${key}: expected ${JSON.stringify(expected[key])}, got ${JSON.stringify(actual[key])}` };
+      }
+    }
+    const xml = serializeIDS(ids).split('\n');
+    const expectedXml = readFileSync(csvPath.replace(/\.csv$/, '.ids'), 'utf8').split('\n');
+    const line = xml.findIndex((text, index) => text !== expectedXml[index]);
+    if (line >= 0 || xml.length !== expectedXml.length) {
+      const index = line >= 0 ? line : Math.min(xml.length, expectedXml.length);
+      return { path: csvPath, difference: `IDS line ${index + 1}: expected ${JSON.stringify(expectedXml[index])}, got ${JSON.stringify(xml[index])}` };
+    }
+    return { path: csvPath, difference: null };
+  } catch (e) {
+    return { path: csvPath, difference: `error: ${e instanceof Error ? e.message : String(e)}` };
+  }
+}
+
+// web-ifc aborts after about 60 OpenModel/CloseModel cycles on one IfcAPI, a new one is started every MODELS_PER_API models
+const MODELS_PER_API = 50;
+let currentApi = null;
+let openedModels = 0;
+
+async function openModel(ifcPath) {
+  if (!currentApi || openedModels === MODELS_PER_API) {
+    currentApi = new WebIFC.IfcAPI();
+    await currentApi.Init();
+    openedModels = 0;
+  }
+  openedModels++;
+  return { ifcApi: currentApi, modelID: currentApi.OpenModel(new Uint8Array(readFileSync(ifcPath))) };
+}
+
+async function checkGenerated(modules, ifcPath) {
+  const { generateIDS, serializeIDS, parseIDS, IDSAuditEngine } = modules;
+  let model = null;
+  try {
+    model = await openModel(ifcPath);
+    const idsFile = parseIDS(serializeIDS(generateIDS(model.ifcApi, model.modelID, basename(ifcPath))));
+    const engine = new IDSAuditEngine(model.ifcApi, model.modelID);
+    const summary = await engine.runAudit(idsFile);
+    const failures = summary.specifications.filter(spec => spec.status === 'FAIL');
+    const firstFail = summary.results.find(r => r.status === 'FAIL');
+    if (failures.length > 0) {
+      const difference = failures.map(spec => `${spec.name}: ${spec.message}`).join(' | ') + (firstFail ? `, e.g. #${firstFail.elementId} ${firstFail.message}` : '');
+      return { path: ifcPath, specifications: idsFile.specifications.length, difference };
+    }
+
+    const generated = new Set(idsFile.specifications.flatMap(spec => spec.requirements.map(({ facet }) => `${facet.propertySet.value}.${facet.baseName.value}`)));
+    const catalog = await engine.getModelCatalog();
+    const missing = catalog.propertySets.flatMap(pset => pset.properties.map(prop => `${pset.name}.${prop.name}`)).filter(name => !generated.has(name));
+    const difference = missing.length > 0 ? `properties read by the audit but not generated: ${missing.join(', ')}` : null;
+    return { path: ifcPath, specifications: idsFile.specifications.length, difference };
+  } catch (e) {
+    return { path: ifcPath, specifications: 0, difference: `error: ${e instanceof Error ? e.message : String(e)}` };
+  } finally {
+    if (model) model.ifcApi.CloseModel(model.modelID);
+  }
+}
+
+async function runCase(parseIDS, IDSAuditEngine, testCase) {
+  let model = null;
+  try {
+    const idsFile = parseIDS(readFileSync(testCase.idsPath, 'utf8'));
+    model = await openModel(testCase.ifcPath);
+    const engine = new IDSAuditEngine(model.ifcApi, model.modelID);
+
+    const summary = await engine.runAudit(idsFile);
+    const failures = summary.specifications.filter(spec => spec.status === 'FAIL');
+    const firstFail = summary.results.find(r => r.status === 'FAIL');
+    const detail = failures.map(spec => `${spec.name}: ${spec.message}`).join(' | ') +
+      (firstFail ? `, e.g. #${firstFail.elementId} ${firstFail.message}` : '');
+    return { actual: failures.length > 0 ? 'fail' : 'pass', detail };
+  } catch (e) {
+    return { actual: 'error', detail: e instanceof Error ? e.message : String(e) };
+  } finally {
+    if (model) model.ifcApi.CloseModel(model.modelID);
+  }
+}
+
+function formatReport(results, roundTrips, generated, lints, matrices) {
+  const facets = [...new Set(results.map(r => r.facet))];
+  const lines = [
+    '# IDS conformance report',
+    '',
+    `Test cases: \`${relative(ROOT, casesDir) || '.'}\`${source ? ` from ${source}` : ''}`,
+    '',
+    '| Facet | Cases | Conform | Deviations | Rate |',
+    '| --- | ---: | ---: | ---: | ---: |',
+  ];
+
+  const row = (label, subset) => {
+    const conform = subset.filter(r => r.actual === r.expected).length;
+    const rate = subset.length > 0 ? Math.round((conform / subset.length) * 100) : 0;
+    lines.push(`| ${label} | ${subset.length} | ${conform} | ${subset.length - conform} | ${rate}% |`);
+  };
+  for (const facet of facets) row(facet, results.filter(r => r.facet === facet));
+  row('**Total**', results);
+
+  const deviations = results.filter(r => r.actual !== r.expected);
+  if (deviations.length > 0) {
+    lines.push('', '## Deviations', '');
+    for (const r of deviations) {
+      lines.push(`- \`${r.facet}/${r.name}\`: expected ${r.expected}, got ${r.actual}${r.detail ? ` (${r.detail})` : ''}`);
+    }
+  }
+
+  const lossy = roundTrips.filter(r => r.difference);
+  lines.push('', `Round trip (parse -> serialize -> parse): ${roundTrips.length - lossy.length} / ${roundTrips.length} IDS files identical`);
+  for (const r of lossy) lines.push(`- \`${relative(ROOT, r.path)}\`: ${r.difference}`);
+
+  const failing = generated.filter(r => r.difference);
+  const specCount = generated.reduce((acc, r) => acc + r.specifications, 0);
+  lines.push('', `Generated IDS audited on its model: ${generated.length - failing.length} / ${generated.length} IFC files pass (${specCount} specifications)`);
+  for (const r of failing) lines.push(`- \`${relative(ROOT, r.path)}\`: ${r.difference}`);
+
+  const unexpected = lints.filter(r => r.difference);
+  lines.push('', `Lint: ${lints.length - unexpected.length} / ${lints.length} IDS files with the expected diagnostics`);
+  for (const r of unexpected) lines.push(`- \`${relative(ROOT, r.path)}\`: ${r.difference}`);
+
+  const mismatched = matrices.filter(r => r.difference);
+  lines.push('', `Matrix import: ${matrices.length - mismatched.length} / ${matrices.length} CSV files with the expected IDS and issues`);
+  for (const r of mismatched) lines.push(`- \`${relative(ROOT, r.path)}\`: ${r.difference}`);
+  return lines.join('\n') + '\n';
+}
+
+const cases = existsSync(casesDir) ? findCases(casesDir) : [];
+const idsFiles = existsSync(casesDir) ? findIdsFiles(casesDir) : [];
+if (idsFiles.length === 0) {
+  console.error(`No IDS file found in ${casesDir}`);
+  const readme = join(casesDir, 'README.md');
+  if (existsSync(readme)) console.error(`See ${relative(process.cwd(), readme)} to add the test cases`);
+  process.exit(1);
+}
+
+const source = existsSync(join(casesDir, 'SOURCE')) ? readFileSync(join(casesDir, 'SOURCE'), 'utf8').trim() : null;
+if (casesDir === officialDir && (!source || !existsSync(join(casesDir, 'LICENSE')))) {
+  console.error(`${relative(process.cwd(), casesDir)} has no SOURCE or LICENSE file, the test cases are not vendored as described in its README.md`);
+  process.exit(1);
+}
+
+const vite = await createServer({
+  root: ROOT,
+  configFile: false,
+  logLevel: 'error',
+  appType: 'custom',
+  server: { middlewareMode: true, hmr: false, watch: null },
+  optimizeDeps: { noDiscovery: true },
+});
+
+try {
+  const { parseIDS } = await vite.ssrLoadModule('/src/lib/IDSParser.ts');
+  const { serializeIDS } = await vite.ssrLoadModule('/src/lib/IDSSerializer.ts');
+  const { IDSAuditEngine } = await vite.ssrLoadModule('/src/lib/IDSAuditEngine.ts');
+  const { lintIDS } = await vite.ssrLoadModule('/src/lib/IDSLinter.ts');
+  const { generateIDS } = await vite.ssrLoadModule('/src/lib/IDSGenerator.ts');
+  const matrixImporter = await vite.ssrLoadModule('/src/lib/IDSMatrixImporter.ts');
+
+  const results = [];
+  for (const testCase of cases) {
+    const outcome = await runCase(parseIDS, IDSAuditEngine, testCase);
+    results.push({ ...testCase, ...outcome });
+  }
+
+  const corpusFiles = existsSync(corpusDir) ? findIdsFiles(corpusDir) : [];
+  const roundTrips = [...idsFiles, ...corpusFiles].map(idsPath => checkRoundTrip(parseIDS, serializeIDS, idsPath));
+
+  const lints = await Promise.all((existsSync(lintDir) ? findIdsFiles(lintDir) : []).map(idsPath => checkLint(lintIDS, idsPath)));
+
+  const matrices = [];
+  for (const csvPath of existsSync(matrixDir) ? readdirSync(matrixDir).filter(file => file.endsWith('.csv')).sort().map(file => join(matrixDir, file)) : []) {
+    matrices.push(await checkMatrix({ ...matrixImporter, serializeIDS }, csvPath));
+  }
+
+  const generated = [];
+  for (const ifcPath of [...new Set(cases.map(testCase => testCase.ifcPath))]) {
+    generated.push(await checkGenerated({ generateIDS, serializeIDS, parseIDS, IDSAuditEngine }, ifcPath));
+  }
+
+  const report = formatReport(results, roundTrips, generated, lints, matrices);
+  process.stdout.write(report);
+  if (outFile) writeFileSync(outFile, report);
+  process.exitCode = results.every(r => r.actual === r.expected) && [...roundTrips, ...generated, ...lints, ...matrices].every(r => !r.difference) ? 0 : 1;
+} finally {
+  await vite.close();
+}
@@ -1,19 +1,22 @@
-import React, { useState, useRef, useCallback } from 'react';
-import { ThreeViewer, SelectedElementInfo } from './components/ThreeViewer';
-import { FolderOpen, Info, ShieldCheck, UploadCloud, Play, FileSpreadsheet, CheckCircle, AlertTriangle, XCircle, ChevronDown, ChevronRight, Box, FileText, Loader2 } from 'lucide-react';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import { ThreeViewer, ThreeViewerHandle, SelectedElementInfo, ComplianceStatus } from './components/ThreeViewer';
+import { IDSEditorPanel } from './components/IDSEditorPanel';
+import { IDSMatrixImportPanel } from './components/IDSMatrixImportPanel';
+import { IDSCoveragePanel } from './components/IDSCoveragePanel';
+import { SpatialTreePanel } from './components/SpatialTreePanel';
+import { FolderOpen, Info, ShieldCheck, UploadCloud, Play, FileSpreadsheet, CheckCircle, AlertTriangle, XCircle, ChevronDown, ChevronRight, ChevronLeft, Box, FileText, Loader2, HelpCircle, Pencil, ListTree } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { parseIDS, IDSFile } from './lib/IDSParser';
-import { IDSAuditEngine, AuditSummary, AuditResult } from './lib/IDSAuditEngine';
-
-// Store IFC API reference for audit
-let globalIfcApi: any = null;
-let globalModelID: number | null = null;
-
-// Export function to set IFC API from ThreeViewer
-export const setIfcApiForAudit = (api: any, modelID: number) => {
-  globalIfcApi = api;
-  globalModelID = modelID;
-};
+import { parseIDS, IDSFile, specificationTargetsSchema } from './lib/IDSParser';
+import { AuditSummary, AuditResult, ElementExplanation, IDSSource } from './lib/IDSAuditEngine';
+import { IDSAuditRunner } from './lib/IDSAuditRunner';
+import { lintIDS, IDSDiagnostic } from './lib/IDSLinter';
+import { SpatialTreeNode, getSubtreeIds } from './lib/IFCSpatialTree';
+
+// One file of the IDS set, only enabled files are audited
+interface IDSSetEntry extends IDSSource {
+  enabled: boolean;
+  diagnostics: IDSDiagnostic[];
+}
 
 const App = () => {
   const [activePanel, setActivePanel] = useState('properties');
@@ -21,20 +24,52 @@ const App = () => {
   const [notification, setNotification] = useState<string | null>(null);
   
   // IDS State
-  const [idsFile, setIdsFile] = useState<IDSFile | null>(null);
-  const [idsFileName, setIdsFileName] = useState<string>('');
+  const [idsSet, setIdsSet] = useState<IDSSetEntry[]>([]);
   const [idsError, setIdsError] = useState<string | null>(null);
   
   // IFC State
   const [ifcFileUrl, setIfcFileUrl] = useState<string | null>(null);
   const [fileName, setFileName] = useState("Projet_Demo.ifc");
+  const [modelSchema, setModelSchema] = useState<string | null>(null);
+  const [spatialTree, setSpatialTree] = useState<SpatialTreeNode[] | null>(null);
+  const [hiddenElements, setHiddenElements] = useState<Set<number>>(new Set());
   
   // Audit State
   const [isAuditing, setIsAuditing] = useState(false);
   const [auditProgress, setAuditProgress] = useState<string>('');
   const [auditSummary, setAuditSummary] = useState<AuditSummary | null>(null);
+  const [liveCounts, setLiveCounts] = useState({ results: 0, fail: 0 });
+  // The worker keeps its own copy of the model, so it is reused until a new IFC is loaded
+  const auditRunnerRef = useRef<IDSAuditRunner | null>(null);
+
+  useEffect(() => () => auditRunnerRef.current?.dispose(), []);
+
+  const enabledIds = useMemo(() => idsSet.filter(entry => entry.enabled), [idsSet]);
+  const auditSources = useMemo<IDSSource[]>(() => enabledIds.map(({ name, ids }) => ({ name, ids })), [enabledIds]);
+
+  // Explain mode, the index runs over the specifications of every enabled file
+  const [explainSpecIndex, setExplainSpecIndex] = useState(0);
+  const [explanation, setExplanation] = useState<ElementExplanation | null>(null);
+  const [isExplaining, setIsExplaining] = useState(false);
+  const explainSpecs = enabledIds.flatMap(entry => entry.ids.specifications.map(spec => ({ spec, source: entry.name })));
+
+  const getAuditRunner = useCallback(() => {
+    if (!auditRunnerRef.current) {
+      auditRunnerRef.current = new IDSAuditRunner();
+    }
+    return auditRunnerRef.current;
+  }, []);
+
+  // The editor stays mounted once opened so its draft survives panel switches
+  const [editorMounted, setEditorMounted] = useState(false);
   const [expandedSpecs, setExpandedSpecs] = useState<Set<string>>(new Set());
   const [filterStatus, setFilterStatus] = useState<'all' | 'PASS' | 'FAIL' | 'WARNING'>('all');
+  // Colour by compliance, limited to one specification (key from getSpecKey) or over all of them
+  const [colourByCompliance, setColourByCompliance] = useState(false);
+  const [colourSpecKey, setColourSpecKey] = useState('');
+  // Audit result opened from the results list, reviewed failure by failure
+  const [focusedResult, setFocusedResult] = useState<AuditResult | null>(null);
+  const viewerRef = useRef<ThreeViewerHandle>(null);
   
   // Properties panel state
   const [expandedSets, setExpandedSets] = useState<Set<string>>(new Set(['Informations générales']));
@@ -49,13 +84,26 @@ const App = () => {
 
   const handleSelection = useCallback((info: SelectedElementInfo | null) => {
     setSelectedElement(info);
+    setExplanation(null);
     if (info) {
-      setActivePanel('properties');
+      // The tree stays open so that the selection can be followed in it
+      setActivePanel(panel => (panel === 'tree' ? panel : 'properties'));
       const allSets = new Set(info.propertySets.map(ps => ps.name));
       setExpandedSets(allSets);
     }
   }, []);
 
+  const handleModelLoaded = useCallback(({ schema, spatialTree }: { schema: string, spatialTree: SpatialTreeNode[] }) => {
+    setModelSchema(schema);
+    setSpatialTree(spatialTree);
+    setHiddenElements(new Set());
+  }, []);
+
+  // Spatial nodes are framed on their whole content
+  const handleTreeSelect = (node: SpatialTreeNode) => {
+    viewerRef.current?.selectElement(node.expressID, node.spatial ? getSubtreeIds(node) : undefined);
+  };
+
   const togglePropertySet = (name: string) => {
     setExpandedSets(prev => {
       const newSet = new Set(prev);
@@ -65,6 +113,8 @@ const App = () => {
     });
   };
 
+  const getSpecKey = (spec: { name: string, source?: string }) => `${spec.source}\n${spec.name}`;
+
   const toggleSpec = (name: string) => {
     setExpandedSpecs(prev => {
       const newSet = new Set(prev);
@@ -79,37 +129,67 @@ const App = () => {
     if (file) {
       setFileName(file.name);
       setIfcFileUrl(URL.createObjectURL(file));
+      setModelSchema(null);
+      setSpatialTree(null);
       setAuditSummary(null);
+      auditRunnerRef.current?.dispose();
+      auditRunnerRef.current = null;
+      setIsAuditing(false);
       setSelectedElement(null);
     }
   };
 
-  const handleIdsUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setIdsError(null);
-      setIdsFileName(file.name);
-      
-      const reader = new FileReader();
-      reader.onload = (ev) => {
-        try {
-          const content = ev.target?.result as string;
-          const parsed = parseIDS(content);
-          setIdsFile(parsed);
-          showNotification(`IDS chargé: ${parsed.specifications.length} spécification(s)`);
-        } catch (err) {
-          const errorMsg = err instanceof Error ? err.message : 'Erreur de parsing';
-          setIdsError(errorMsg);
-          setIdsFile(null);
-          showNotification(`Erreur IDS: ${errorMsg}`);
-        }
-      };
-      reader.readAsText(file);
+  // Results of a previous audit no longer match the set once it changes
+  const updateIdsSet = (update: (prev: IDSSetEntry[]) => IDSSetEntry[]) => {
+    setIdsSet(update);
+    setAuditSummary(null);
+    setExplainSpecIndex(0);
+    setExplanation(null);
+  };
+
+  // A file with the same name as a loaded one replaces it
+  const addToIdsSet = (entries: IDSSetEntry[]) => {
+    const names = new Set(entries.map(entry => entry.name));
+    updateIdsSet(prev => [...prev.filter(entry => !names.has(entry.name)), ...entries]);
+  };
+
+  const handleIdsUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setIdsError(null);
+    const entries: IDSSetEntry[] = [];
+    const errors: string[] = [];
+    for (const file of files) {
+      try {
+        const content = await file.text();
+        entries.push({ name: file.name, ids: parseIDS(content), enabled: true, diagnostics: await lintIDS(content) });
+      } catch (err) {
+        errors.push(`${file.name}: ${err instanceof Error ? err.message : 'Erreur de parsing'}`);
+      }
+    }
+
+    if (entries.length > 0) addToIdsSet(entries);
+    if (errors.length > 0) {
+      setIdsError(errors.join('\n'));
+      showNotification(`Erreur IDS: ${errors[0]}`);
+    } else {
+      const specCount = entries.reduce((acc, entry) => acc + entry.ids.specifications.length, 0);
+      showNotification(`IDS chargé(s): ${entries.length} fichier(s), ${specCount} spécification(s)`);
     }
   };
 
+  // IDS built in the app (editor, requirements matrix) rather than loaded from a file
+  const handleUseGeneratedIds = (ids: IDSFile, source: string) => {
+    addToIdsSet([{ name: `${ids.title} (${source})`, ids, enabled: true, diagnostics: [] }]);
+    setIdsError(null);
+    setActivePanel('ids');
+    showNotification(`IDS (${source}): ${ids.specifications.length} spécification(s)`);
+  };
+
   const handleRunAudit = async () => {
-    if (!idsFile || !globalIfcApi || globalModelID === null) {
+    if (enabledIds.length === 0 || !ifcFileUrl) {
       showNotification("Veuillez charger un fichier IFC et un fichier IDS");
       return;
     }
@@ -117,23 +197,31 @@ const App = () => {
     setIsAuditing(true);
     setAuditProgress('Initialisation...');
     setAuditSummary(null);
+    setLiveCounts({ results: 0, fail: 0 });
 
     try {
-      const engine = new IDSAuditEngine(globalIfcApi, globalModelID);
+      const runner = getAuditRunner();
       
-      const summary = await engine.runAudit(idsFile, (message, percent) => {
-        setAuditProgress(`${message} (${Math.round(percent)}%)`);
-      });
+      const summary = await runner.run(
+        ifcFileUrl,
+        auditSources,
+        (message, percent) => setAuditProgress(`${message} (${Math.round(percent)}%)`),
+        (results) => setLiveCounts(prev => ({
+          results: prev.results + results.length,
+          fail: prev.fail + results.filter(r => r.status === 'FAIL').length
+        }))
+      );
 
       setAuditSummary(summary);
+      setColourSpecKey('');
       setActivePanel('ids');
       
       // Expand all specs with failures
-      const failedSpecs = new Set<string>();
-      summary.results.filter(r => r.status === 'FAIL').forEach(r => failedSpecs.add(r.specificationName));
-      setExpandedSpecs(failedSpecs);
+      setExpandedSpecs(new Set(summary.specifications.filter(s => s.status === 'FAIL').map(getSpecKey)));
       
-      showNotification(`Audit terminé: ${summary.score}% de conformité`);
+      showNotification(summary.cancelled
+        ? `Audit annulé — résultats partiels (${summary.testedElements} élément(s) testé(s))`
+        : `Audit terminé: ${summary.score}% de conformité`);
     } catch (err) {
       const errorMsg = err instanceof Error ? err.message : 'Erreur inconnue';
       showNotification(`Erreur d'audit: ${errorMsg}`);
@@ -143,6 +231,26 @@ const App = () => {
     }
   };
 
+  const handleExplain = async () => {
+    const spec = explainSpecs[explainSpecIndex]?.spec;
+    if (!spec || !selectedElement || !ifcFileUrl) return;
+
+    setIsExplaining(true);
+    try {
+      setExplanation(await getAuditRunner().explain(ifcFileUrl, spec, selectedElement.expressID));
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Erreur inconnue';
+      showNotification(`Erreur d'explication: ${errorMsg}`);
+    } finally {
+      setIsExplaining(false);
+    }
+  };
+
+  const handleCancelAudit = () => {
+    auditRunnerRef.current?.cancel();
+    setAuditProgress('Annulation...');
+  };
+
   const formatValue = (value: string | number | boolean | null): string => {
     if (value === null || value === undefined) return 'N/A';
     if (typeof value === 'boolean') return value ? 'Oui' : 'Non';
@@ -171,24 +279,109 @@ const App = () => {
     }
   };
 
-  // Group results by specification
+  // Group results by specification, names are only unique within a file
   const groupedResults = auditSummary?.results.reduce((acc, result) => {
-    const key = result.specificationName;
+    const key = getSpecKey({ name: result.specificationName, source: result.source });
     if (!acc[key]) acc[key] = [];
     acc[key].push(result);
     return acc;
   }, {} as Record<string, AuditResult[]>) || {};
 
-  // Filter results
-  const filteredGroupedResults = Object.entries(groupedResults).reduce((acc, [spec, results]) => {
-    const filtered = filterStatus === 'all' ? results : results.filter(r => r.status === filterStatus);
-    if (filtered.length > 0) acc[spec] = filtered;
-    return acc;
-  }, {} as Record<string, AuditResult[]>);
+  // Specifications with their filtered results nested underneath
+  const filteredSpecifications = (auditSummary?.specifications || [])
+    .map(spec => ({
+      spec,
+      results: (groupedResults[getSpecKey(spec)] || []).filter(r => filterStatus === 'all' || r.status === filterStatus)
+    }))
+    .filter(({ spec, results }) => filterStatus === 'all' || results.length > 0 || spec.status === filterStatus);
+
+  const cardinalityLabels = { required: 'obligatoire', optional: 'optionnelle', prohibited: 'interdite' };
+
+  // Failures in the order of the results list, for keyboard review
+  const reviewResults = filteredSpecifications.flatMap(({ results }) => results).filter(r => r.status === 'FAIL' && r.elementId > 0);
+  const reviewIndex = focusedResult ? reviewResults.indexOf(focusedResult) : -1;
+
+  const handleResultClick = (result: AuditResult) => {
+    if (result.elementId <= 0) return;
+    setFocusedResult(result);
+    viewerRef.current?.selectElement(result.elementId);
+  };
+
+  const goToFailure = (offset: number) => {
+    if (reviewResults.length === 0) return;
+    const next = reviewIndex < 0
+      ? (offset > 0 ? 0 : reviewResults.length - 1)
+      : (reviewIndex + offset + reviewResults.length) % reviewResults.length;
+    handleResultClick(reviewResults[next]);
+  };
+  const goToFailureRef = useRef(goToFailure);
+  goToFailureRef.current = goToFailure;
+
+  // N / P step through the failures, except while typing in a field
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      if (e.target instanceof HTMLElement && e.target.closest('input, textarea, select')) return;
+      if (e.key === 'n' || e.key === 'N') goToFailureRef.current(1);
+      else if (e.key === 'p' || e.key === 'P') goToFailureRef.current(-1);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Failed and warning requirements of the selected element, shown next to the property they check when there is one.
+  // Names are compared case-sensitively, as the audit matches them
+  const selectedIssues = (selectedElement && auditSummary?.results.filter(r =>
+    r.elementId === selectedElement.expressID && (r.status === 'FAIL' || r.status === 'WARNING')
+  )) || [];
+  const getPropertyIssues = (psetName: string, propName: string) => selectedIssues.filter(r =>
+    r.property &&
+    r.property.propertySet === psetName.replace(/^\[Type\] /, '') &&
+    r.property.name === propName
+  );
+  const unplacedIssues = selectedIssues.filter(r => !selectedElement?.propertySets.some(pset =>
+    pset.properties.some(prop => getPropertyIssues(pset.name, prop.name).includes(r))
+  ));
+
+  const reviewBar = reviewResults.length > 0 && (
+    <div className="flex items-center justify-between gap-2 p-2 bg-slate-900 rounded border border-slate-700 text-xs">
+      <button onClick={() => goToFailure(-1)} className="p-1 rounded hover:bg-slate-700 text-slate-300" title="Échec précédent (P)">
+        <ChevronLeft size={14} />
+      </button>
+      <span className="text-slate-400">
+        {reviewIndex >= 0 ? `Échec ${reviewIndex + 1} / ${reviewResults.length}` : `${reviewResults.length} échec(s) à parcourir`}
+        <span className="text-slate-500"> • touches N / P</span>
+      </span>
+      <button onClick={() => goToFailure(1)} className="p-1 rounded hover:bg-slate-700 text-slate-300" title="Échec suivant (N)">
+        <ChevronRight size={14} />
+      </button>
+    </div>
+  );
+
+  // Warn when the IDS set only targets other schemas, the audit would mark every specification as not applicable
+  const enabledSpecs = enabledIds.flatMap(entry => entry.ids.specifications);
+  const idsTargetsModelSchema = enabledSpecs.length === 0 || !modelSchema ||
+    enabledSpecs.some(spec => specificationTargetsSchema(spec, modelSchema));
+  const idsSchemas = [...new Set(enabledSpecs.flatMap(spec => spec.ifcVersion || []))];
+  const auditedSpecifications = auditSummary?.specifications.filter(s => s.status !== 'NOT_APPLICABLE') || [];
+
+  // Worst status of each element over the coloured specifications: FAIL, then WARNING, then PASS
+  const elementStatuses = useMemo(() => {
+    if (!colourByCompliance || !auditSummary) return null;
+    const rank: Record<ComplianceStatus, number> = { PASS: 0, WARNING: 1, FAIL: 2 };
+    const statuses = new Map<number, ComplianceStatus>();
+    for (const result of auditSummary.results) {
+      if (result.elementId <= 0 || result.status === 'NOT_APPLICABLE') continue;
+      if (colourSpecKey && getSpecKey({ name: result.specificationName, source: result.source }) !== colourSpecKey) continue;
+      const current = statuses.get(result.elementId);
+      if (!current || rank[result.status] > rank[current]) statuses.set(result.elementId, result.status);
+    }
+    return statuses;
+  }, [colourByCompliance, colourSpecKey, auditSummary]);
 
   return (
     <div className="flex h-screen w-screen bg-slate-900 text-slate-100 overflow-hidden font-sans">
-      <input type="file" ref={idsInputRef} onChange={handleIdsUpload} accept=".ids,.xml" className="hidden" />
+      <input type="file" ref={idsInputRef} onChange={handleIdsUpload} accept=".ids,.xml" multiple className="hidden" />
       <input type="file" ref={ifcInputRef} onChange={handleIfcUpload} accept=".ifc" className="hidden" />
 
       {/* SIDEBAR GAUCHE */}
@@ -200,7 +393,9 @@ const App = () => {
         <NavButton onClick={() => ifcInputRef.current?.click()} icon={<FolderOpen size={20} />} title="Ouvrir IFC" />
         <div className="h-px w-8 bg-slate-700 my-2"></div>
         <NavButton active={activePanel === 'properties'} onClick={() => setActivePanel('properties')} icon={<Info size={20} />} title="Propriétés" />
+        <NavButton active={activePanel === 'tree'} onClick={() => setActivePanel('tree')} icon={<ListTree size={20} />} title="Arborescence" />
         <NavButton active={activePanel === 'ids'} onClick={() => setActivePanel('ids')} icon={<ShieldCheck size={20} />} title="Audit IDS" />
+        <NavButton active={activePanel === 'editor'} onClick={() => { setActivePanel('editor'); setEditorMounted(true); }} icon={<Pencil size={20} />} title="Éditeur IDS" />
       </div>
 
       {/* CENTRE */}
@@ -209,61 +404,126 @@ const App = () => {
           <div className="flex items-center gap-3">
             <span className="font-semibold text-white">{fileName}</span>
             {ifcFileUrl && <span className="text-[10px] bg-blue-900 px-2 py-0.5 rounded text-blue-200 font-bold">IFC</span>}
-            {idsFile && <span className="text-[10px] bg-purple-900 px-2 py-0.5 rounded text-purple-200 font-bold">IDS</span>}
+            {enabledIds.length > 0 && (
+              <span className="text-[10px] bg-purple-900 px-2 py-0.5 rounded text-purple-200 font-bold">
+                IDS{enabledIds.length > 1 && ` ×${enabledIds.length}`}
+              </span>
+            )}
           </div>
           <div className="flex items-center text-slate-300 gap-2"><FileSpreadsheet size={16}/> Export</div>
         </div>
-        <ThreeViewer ifcFileUrl={ifcFileUrl} onSelect={handleSelection} setNotification={showNotification} />
+        <ThreeViewer ref={viewerRef} ifcFileUrl={ifcFileUrl} onSelect={handleSelection} setNotification={showNotification} onModelLoaded={handleModelLoaded} elementStatuses={elementStatuses} hiddenElements={hiddenElements} />
       </div>
 
       {/* SIDEBAR DROITE */}
       <div className="w-96 bg-slate-800 border-l border-slate-700 flex flex-col shadow-xl z-20">
         <div className="h-14 border-b border-slate-700 flex items-center px-4 gap-3 bg-slate-800">
-          {activePanel === 'ids' ? <ShieldCheck className="text-purple-500" size={20} /> : <Info className="text-blue-500" size={20} />}
-          <span className="font-bold text-white tracking-wide">{activePanel === 'ids' ? 'Audit IDS' : 'Propriétés IFC'}</span>
+          {activePanel === 'ids' ? <ShieldCheck className="text-purple-500" size={20} /> : activePanel === 'editor' ? <Pencil className="text-purple-500" size={20} /> : activePanel === 'tree' ? <ListTree className="text-blue-500" size={20} /> : <Info className="text-blue-500" size={20} />}
+          <span className="font-bold text-white tracking-wide">{activePanel === 'ids' ? 'Audit IDS' : activePanel === 'editor' ? 'Éditeur IDS' : activePanel === 'tree' ? 'Arborescence' : 'Propriétés IFC'}</span>
         </div>
         
         <div className="p-4 overflow-y-auto flex-1">
-          {activePanel === 'ids' ? (
+          {editorMounted && (
+            <div className={activePanel === 'editor' ? '' : 'hidden'}>
+              <IDSEditorPanel
+                idsFiles={idsSet.map(entry => entry.ids)}
+                ifcFileUrl={ifcFileUrl}
+                ifcFileName={fileName}
+                getAuditRunner={getAuditRunner}
+                onUseForAudit={(ids) => handleUseGeneratedIds(ids, 'éditeur')}
+                setNotification={showNotification}
+              />
+            </div>
+          )}
+
+          {activePanel === 'editor' ? null : activePanel === 'tree' ? (
+            <SpatialTreePanel
+              tree={spatialTree}
+              selectedId={selectedElement?.expressID ?? null}
+              hiddenElements={hiddenElements}
+              onHiddenChange={setHiddenElements}
+              onSelect={handleTreeSelect}
+            />
+          ) : activePanel === 'ids' ? (
             <div className="space-y-4">
-              {/* IDS File Upload */}
-              {!idsFile ? (
-                <div>
-                  <Button variant="outline" onClick={() => idsInputRef.current?.click()} className="w-full h-20 border-dashed border-slate-600 flex flex-col gap-2 hover:border-purple-500 hover:bg-purple-500/10">
-                    <UploadCloud size={24} /> Charger fichier IDS (.ids)
-                  </Button>
-                  {idsError && (
-                    <div className="mt-2 p-2 bg-red-500/20 border border-red-500 rounded text-xs text-red-300">
-                      {idsError}
-                    </div>
-                  )}
-                </div>
-              ) : (
-                <div className="bg-slate-700 p-3 rounded border border-purple-500/50">
-                  <div className="flex justify-between items-start">
-                    <div className="flex-1">
-                      <div className="flex items-center gap-2 mb-1">
-                        <FileText size={16} className="text-purple-400" />
-                        <span className="font-bold text-white text-sm">{idsFile.title}</span>
-                      </div>
-                      <div className="text-xs text-slate-400">{idsFileName}</div>
-                      <div className="text-xs text-slate-400 mt-1">
-                        {idsFile.specifications.length} spécification(s)
-                        {idsFile.version && ` • v${idsFile.version}`}
+              {/* IDS set */}
+              {idsSet.map(entry => {
+                const errorCount = entry.diagnostics.filter(d => d.severity === 'error').length;
+                return (
+                  <div key={entry.name} className={`bg-slate-700 p-3 rounded border ${entry.enabled ? 'border-purple-500/50' : 'border-slate-600 opacity-60'}`}>
+                    <div className="flex justify-between items-start gap-2">
+                      <input
+                        type="checkbox"
+                        checked={entry.enabled}
+                        onChange={(e) => updateIdsSet(prev => prev.map(other => (other.name === entry.name ? { ...other, enabled: e.target.checked } : other)))}
+                        title="Inclure dans l'audit"
+                        className="mt-1"
+                      />
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2 mb-1">
+                          <FileText size={16} className="text-purple-400 shrink-0" />
+                          <span className="font-bold text-white text-sm truncate">{entry.ids.title}</span>
+                        </div>
+                        <div className="text-xs text-slate-400 truncate">{entry.name}</div>
+                        <div className="text-xs text-slate-400 mt-1">
+                          {entry.ids.specifications.length} spécification(s)
+                          {entry.ids.version && ` • v${entry.ids.version}`}
+                        </div>
+                        {entry.ids.purpose && (
+                          <div className="text-xs text-slate-500 mt-1 italic">{entry.ids.purpose}</div>
+                        )}
                       </div>
-                      {idsFile.purpose && (
-                        <div className="text-xs text-slate-500 mt-1 italic">{idsFile.purpose}</div>
-                      )}
+                      <button onClick={() => updateIdsSet(prev => prev.filter(other => other.name !== entry.name))} className="text-xs text-red-400 hover:text-red-300">✕</button>
                     </div>
-                    <button onClick={() => { setIdsFile(null); setAuditSummary(null); }} className="text-xs text-red-400 hover:text-red-300">✕</button>
+
+                    {/* IDS lint diagnostics */}
+                    {entry.diagnostics.length > 0 && (
+                      <div className="mt-2 p-2 bg-slate-900 rounded border border-orange-500/50 text-xs space-y-1">
+                        <div className="text-orange-300 font-semibold">
+                          {errorCount} erreur(s), {entry.diagnostics.length - errorCount} avertissement(s)
+                        </div>
+                        <div className="max-h-40 overflow-y-auto space-y-1">
+                          {entry.diagnostics.map((diagnostic, index) => (
+                            <div key={index} className="flex items-start gap-2">
+                              <div className="mt-0.5 shrink-0">
+                                {diagnostic.severity === 'error' ? <XCircle size={12} className="text-red-400" /> : <AlertTriangle size={12} className="text-orange-400" />}
+                              </div>
+                              <span className="font-mono text-slate-500 shrink-0">L{diagnostic.line}:{diagnostic.column}</span>
+                              <span className="text-slate-300">{diagnostic.message}</span>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+
+              {/* IDS File Upload */}
+              <div>
+                <Button
+                  variant="outline"
+                  onClick={() => idsInputRef.current?.click()}
+                  className={`w-full border-dashed border-slate-600 flex flex-col gap-2 hover:border-purple-500 hover:bg-purple-500/10 ${idsSet.length === 0 ? 'h-20' : 'h-9 text-xs'}`}
+                >
+                  {idsSet.length === 0
+                    ? <><UploadCloud size={24} /> Charger fichier(s) IDS (.ids)</>
+                    : <span className="flex items-center gap-2"><UploadCloud size={14} /> Ajouter des fichiers IDS</span>}
+                </Button>
+                {idsError && (
+                  <div className="mt-2 p-2 bg-red-500/20 border border-red-500 rounded text-xs text-red-300 whitespace-pre-line">
+                    {idsError}
                   </div>
+                )}
+                <div className="mt-2">
+                  <IDSMatrixImportPanel onUseForAudit={(ids) => handleUseGeneratedIds(ids, 'matrice')} setNotification={showNotification} />
                 </div>
-              )}
+              </div>
 
               {/* Run Audit Button */}
               <Button 
                 onClick={handleRunAudit} 
-                disabled={!idsFile || !ifcFileUrl || isAuditing} 
+                disabled={enabledIds.length === 0 || !ifcFileUrl || isAuditing} 
                 className="w-full bg-purple-600 hover:bg-purple-500 disabled:opacity-50"
               >
                 {isAuditing ? (
@@ -279,19 +539,44 @@ const App = () => {
                 )}
               </Button>
 
-              {!ifcFileUrl && idsFile && (
+              {isAuditing && (
+                <div className="flex items-center justify-between gap-2 p-2 bg-slate-900 rounded border border-slate-700 text-xs">
+                  <span className="text-slate-400">
+                    {liveCounts.results} résultat(s) • <span className="text-red-400">{liveCounts.fail} FAIL</span>
+                  </span>
+                  <button onClick={handleCancelAudit} className="flex items-center gap-1 text-red-400 hover:text-red-300">
+                    <XCircle size={12} /> Annuler
+                  </button>
+                </div>
+              )}
+
+              {!idsTargetsModelSchema && (
+                <div className="p-2 bg-orange-500/10 rounded border border-orange-500/50 text-xs text-orange-300">
+                  ⚠️ Aucune spécification ne cible le schéma du modèle ({modelSchema}). L'IDS cible : {idsSchemas.join(', ')}
+                </div>
+              )}
+
+              {!ifcFileUrl && enabledIds.length > 0 && (
                 <div className="text-xs text-orange-400 text-center">
                   ⚠️ Chargez un fichier IFC pour lancer l'audit
                 </div>
               )}
 
+              {/* Coverage report */}
+              {enabledIds.length > 0 && (
+                <IDSCoveragePanel sources={auditSources} ifcFileUrl={ifcFileUrl} getAuditRunner={getAuditRunner} setNotification={showNotification} />
+              )}
+
               {/* Audit Results */}
               {auditSummary && (
                 <div className="space-y-4 animate-in slide-in-from-right-4 fade-in duration-300">
                   {/* Score Card */}
                   <div className="p-4 bg-slate-900 rounded-lg border border-slate-700">
                     <div className="flex justify-between items-end mb-3">
-                      <span className="text-sm text-slate-400">Score de conformité</span>
+                      <span className="text-sm text-slate-400">
+                        Score de conformité
+                        {auditSummary.cancelled && <span className="ml-2 text-[10px] bg-orange-900 px-2 py-0.5 rounded text-orange-200 font-bold">PARTIEL</span>}
+                      </span>
                       <span className={`text-3xl font-black ${auditSummary.score >= 80 ? 'text-green-400' : auditSummary.score >= 50 ? 'text-orange-400' : 'text-red-400'}`}>
                         {auditSummary.score}%
                       </span>
@@ -320,6 +605,59 @@ const App = () => {
                         <div className="text-slate-400">Éléments</div>
                       </div>
                     </div>
+                    <div className="mt-3 text-xs text-slate-400 flex justify-between">
+                      <span>Spécifications conformes</span>
+                      <span className="font-bold text-slate-200">
+                        {auditedSpecifications.filter(s => s.status === 'PASS').length} / {auditedSpecifications.length}
+                      </span>
+                    </div>
+
+                    {/* Score per file of the IDS set */}
+                    {auditSummary.sources.length > 1 && (
+                      <div className="mt-3 pt-3 border-t border-slate-700 space-y-2">
+                        {auditSummary.sources.map(source => (
+                          <div key={source.source} className="text-xs">
+                            <div className="flex justify-between gap-2">
+                              <span className="text-slate-300 truncate" title={source.source}>{source.source}</span>
+                              <span className={`font-bold shrink-0 ${source.score >= 80 ? 'text-green-400' : source.score >= 50 ? 'text-orange-400' : 'text-red-400'}`}>
+                                {source.score}%
+                              </span>
+                            </div>
+                            <div className="w-full bg-slate-700 h-1.5 rounded-full overflow-hidden my-1">
+                              <div
+                                className={`h-full ${source.score >= 80 ? 'bg-green-500' : source.score >= 50 ? 'bg-orange-500' : 'bg-red-500'}`}
+                                style={{ width: `${source.score}%` }}
+                              />
+                            </div>
+                            <div className="text-[10px] text-slate-500">
+                              {source.pass} PASS • {source.fail} FAIL • {source.warning} WARN • {source.passedSpecifications} / {source.specifications} spécification(s) conforme(s)
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Colour by compliance */}
+                  <div className="p-2 bg-slate-900 rounded border border-slate-700 space-y-2 text-xs">
+                    <label className="flex items-center gap-2 text-slate-300">
+                      <input type="checkbox" checked={colourByCompliance} onChange={(e) => setColourByCompliance(e.target.checked)} />
+                      Colorer le modèle par conformité
+                    </label>
+                    {colourByCompliance && (
+                      <select
+                        value={colourSpecKey}
+                        onChange={(e) => setColourSpecKey(e.target.value)}
+                        className="w-full bg-slate-800 border border-slate-600 rounded px-2 py-1 text-xs text-slate-200"
+                      >
+                        <option value="">Toutes les spécifications</option>
+                        {auditedSpecifications.map(spec => (
+                          <option key={getSpecKey(spec)} value={getSpecKey(spec)}>
+                            {auditSummary.sources.length > 1 ? `${spec.source} • ${spec.name}` : spec.name}
+                          </option>
+                        ))}
+                      </select>
+                    )}
                   </div>
 
                   {/* Filter Buttons */}
@@ -339,35 +677,45 @@ const App = () => {
                     ))}
                   </div>
 
+                  {reviewBar}
+
                   {/* Results by Specification */}
                   <div className="space-y-2">
-                    {Object.entries(filteredGroupedResults).map(([specName, results]) => {
-                      const passCount = results.filter(r => r.status === 'PASS').length;
-                      const failCount = results.filter(r => r.status === 'FAIL').length;
-                      const isExpanded = expandedSpecs.has(specName);
+                    {filteredSpecifications.map(({ spec, results }) => {
+                      const specName = spec.name;
+                      const specKey = getSpecKey(spec);
+                      const isExpanded = expandedSpecs.has(specKey);
 
                       return (
-                        <div key={specName} className="bg-slate-700/50 rounded-lg overflow-hidden border border-slate-600">
+                        <div key={specKey} className="bg-slate-700/50 rounded-lg overflow-hidden border border-slate-600">
                           <button
-                            onClick={() => toggleSpec(specName)}
+                            onClick={() => toggleSpec(specKey)}
                             className="w-full px-3 py-2 flex items-center justify-between bg-slate-700 hover:bg-slate-600 transition-colors"
                           >
-                            <div className="flex items-center gap-2">
+                            <div className="flex items-center gap-2 min-w-0">
                               {isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
-                              <span className="font-medium text-sm text-slate-200 text-left">{specName}</span>
+                              {getStatusIcon(spec.status)}
+                              <span className="font-medium text-sm text-slate-200 text-left truncate">{specName}</span>
                             </div>
-                            <div className="flex gap-1 text-xs">
-                              {passCount > 0 && <span className="bg-green-500/30 text-green-300 px-1.5 rounded">{passCount}</span>}
-                              {failCount > 0 && <span className="bg-red-500/30 text-red-300 px-1.5 rounded">{failCount}</span>}
+                            <div className="flex gap-1 text-xs shrink-0">
+                              <span className="bg-slate-600 text-slate-300 px-1.5 rounded" title="Éléments applicables">{spec.applicableElements}</span>
+                              {spec.failedElements > 0 && <span className="bg-red-500/30 text-red-300 px-1.5 rounded" title="Éléments non conformes">{spec.failedElements}</span>}
                             </div>
                           </button>
+                          <div className={`px-3 py-1 text-[10px] border-b border-slate-600 ${spec.status === 'PASS' ? 'text-green-300' : spec.status === 'NOT_APPLICABLE' ? 'text-slate-400' : 'text-red-300'}`}>
+                            {auditSummary.sources.length > 1 && <span className="text-purple-300">{spec.source} • </span>}
+                            Spécification {cardinalityLabels[spec.cardinality]} • {spec.message}
+                            {spec.cardinalityStatus === 'FAIL' && ' • cardinalité non respectée'}
+                          </div>
                           
-                          {isExpanded && (
+                          {isExpanded && results.length > 0 && (
                             <div className="p-2 space-y-1 max-h-60 overflow-y-auto">
                               {results.map((result, idx) => (
                                 <div 
                                   key={idx} 
-                                  className={`p-2 rounded border-l-2 text-xs ${getStatusColor(result.status)}`}
+                                  onClick={() => handleResultClick(result)}
+                                  className={`p-2 rounded border-l-2 text-xs ${getStatusColor(result.status)} ${result.elementId > 0 ? 'cursor-pointer hover:brightness-125' : ''} ${result === focusedResult ? 'ring-1 ring-purple-400' : ''}`}
+                                  title={result.elementId > 0 ? 'Sélectionner et cadrer l\'élément' : undefined}
                                 >
                                   <div className="flex items-start gap-2">
                                     <div className="mt-0.5">{getStatusIcon(result.status)}</div>
@@ -375,7 +723,7 @@ const App = () => {
                                       <div className="font-semibold text-slate-200 truncate" title={result.elementName}>
                                         {result.elementName}
                                       </div>
-                                      <div className="text-slate-400 text-[10px]">{result.elementType} #{result.elementId}</div>
+                                      <div className="text-slate-400 text-[10px]">{result.elementType}{result.elementId > 0 && ` #${result.elementId}`}</div>
                                       <div className="text-slate-300 mt-1">{result.requirementDescription}</div>
                                       <div className={`mt-1 ${result.status === 'PASS' ? 'text-green-300' : result.status === 'FAIL' ? 'text-red-300' : 'text-orange-300'}`}>
                                         {result.message}
@@ -394,7 +742,7 @@ const App = () => {
                     })}
                   </div>
 
-                  {Object.keys(filteredGroupedResults).length === 0 && (
+                  {filteredSpecifications.length === 0 && (
                     <div className="text-center text-slate-500 py-4">
                       Aucun résultat pour ce filtre
                     </div>
@@ -416,6 +764,24 @@ const App = () => {
                     <div className="text-green-200 text-[10px] mt-1">ID: {selectedElement.expressID}</div>
                   </div>
 
+                  {focusedResult && reviewBar}
+
+                  {/* Audit issues not tied to a displayed property (missing property, attribute, classification...) */}
+                  {unplacedIssues.length > 0 && (
+                    <div className="p-2 bg-red-500/10 rounded border border-red-500/50 text-xs space-y-1">
+                      <div className="text-red-300 font-semibold">{unplacedIssues.length} exigence(s) non respectée(s)</div>
+                      {unplacedIssues.map((issue, index) => (
+                        <div key={index} className={`flex items-start gap-2 ${issue === focusedResult ? 'bg-purple-500/10 rounded' : ''}`}>
+                          <div className="mt-0.5 shrink-0">{getStatusIcon(issue.status)}</div>
+                          <div className="min-w-0">
+                            <div className="text-slate-200">{issue.requirementDescription}</div>
+                            <div className="text-slate-400 text-[10px]">{issue.message}</div>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
                   {selectedElement.propertySets.map((pset, index) => (
                     <div key={index} className="bg-slate-700/50 rounded-lg overflow-hidden border border-slate-600">
                       <button
@@ -431,17 +797,95 @@ const App = () => {
                       
                       {expandedSets.has(pset.name) && (
                         <div className="p-2 space-y-1">
-                          {pset.properties.map((prop, propIndex) => (
-                            <div key={propIndex} className="flex justify-between items-start py-1 px-2 hover:bg-slate-600/50 rounded text-xs">
-                              <span className="text-slate-400 flex-shrink-0 mr-2">{prop.name}</span>
-                              <span className="text-slate-200 text-right font-mono break-all">{formatValue(prop.value)}</span>
-                            </div>
-                          ))}
+                          {pset.properties.map((prop, propIndex) => {
+                            const issues = getPropertyIssues(pset.name, prop.name);
+                            return (
+                              <div key={propIndex} className={`py-1 px-2 rounded text-xs ${issues.length > 0 ? 'bg-red-500/10 border-l-2 border-red-500' : 'hover:bg-slate-600/50'}`}>
+                                <div className="flex justify-between items-start">
+                                  <span className="text-slate-400 flex-shrink-0 mr-2">{prop.name}</span>
+                                  <span className="text-slate-200 text-right font-mono break-all">{formatValue(prop.value)}</span>
+                                </div>
+                                {issues.map((issue, index) => (
+                                  <div key={index} className={`mt-1 flex items-start gap-1 text-[10px] ${issue.status === 'FAIL' ? 'text-red-300' : 'text-orange-300'} ${issue === focusedResult ? 'font-semibold' : ''}`}>
+                                    <div className="mt-0.5 shrink-0">{getStatusIcon(issue.status)}</div>
+                                    <span>{issue.message}{issue.details && ` • ${issue.details}`}</span>
+                                  </div>
+                                ))}
+                              </div>
+                            );
+                          })}
                         </div>
                       )}
                     </div>
                   ))}
 
+                  {/* Explain mode */}
+                  {explainSpecs.length > 0 && (
+                    <div className="bg-slate-700/50 rounded-lg border border-purple-500/40 p-3 space-y-2">
+                      <div className="flex items-center gap-2 text-sm font-semibold text-purple-300">
+                        <HelpCircle size={16} /> Explication IDS
+                      </div>
+                      <select
+                        value={explainSpecIndex}
+                        onChange={(e) => { setExplainSpecIndex(Number(e.target.value)); setExplanation(null); }}
+                        className="w-full bg-slate-800 border border-slate-600 rounded px-2 py-1 text-xs text-slate-200"
+                      >
+                        {enabledIds.map(entry => (
+                          <optgroup key={entry.name} label={entry.name}>
+                            {explainSpecs.map(({ spec, source }, index) => source === entry.name && (
+                              <option key={index} value={index}>{spec.name}</option>
+                            ))}
+                          </optgroup>
+                        ))}
+                      </select>
+                      <Button
+                        onClick={handleExplain}
+                        disabled={isExplaining || !ifcFileUrl}
+                        className="w-full h-8 text-xs bg-purple-600 hover:bg-purple-500 disabled:opacity-50"
+                      >
+                        {isExplaining ? <Loader2 size={14} className="mr-2 animate-spin" /> : <HelpCircle size={14} className="mr-2" />}
+                        Pourquoi cet élément est-il (ou non) audité ?
+                      </Button>
+
+                      {explanation && explanation.elementId === selectedElement.expressID && (
+                        <div className="space-y-2 text-xs">
+                          <div className={`font-semibold ${explanation.applicable ? 'text-green-300' : 'text-orange-300'}`}>
+                            {explanation.message}
+                          </div>
+                          <div>
+                            <div className="text-slate-400 mb-1">Applicabilité</div>
+                            {explanation.applicability.map((facet, index) => (
+                              <div key={index} className="flex items-start gap-2 py-0.5">
+                                <div className="mt-0.5">{facet.matched ? <CheckCircle size={12} className="text-green-400" /> : <XCircle size={12} className="text-red-400" />}</div>
+                                <div className="min-w-0">
+                                  <div className="text-slate-200">{facet.description}</div>
+                                  {facet.found && <div className="text-slate-400 text-[10px]">Trouvé: {facet.found}</div>}
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                          {explanation.requirements.length > 0 && (
+                            <div>
+                              <div className="text-slate-400 mb-1">
+                                Exigences{!explanation.applicable && ' (non appliquées à cet élément)'}
+                              </div>
+                              {explanation.requirements.map((result, index) => (
+                                <div key={index} className="flex items-start gap-2 py-0.5">
+                                  <div className="mt-0.5">{getStatusIcon(result.status)}</div>
+                                  <div className="min-w-0">
+                                    <div className="text-slate-200">{result.requirementDescription}</div>
+                                    <div className="text-slate-400 text-[10px]">{result.message}</div>
+                                    {result.details && <div className="text-slate-500 text-[10px]">{result.details}</div>}
+                                  </div>
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  )}
+
                   <div className="text-center text-xs text-slate-500 mt-4">
                     {selectedElement.propertySets.reduce((acc, ps) => acc + ps.properties.length, 0)} propriétés
                   </div>
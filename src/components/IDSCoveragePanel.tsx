@@ -0,0 +1,128 @@
+// IDS Coverage Panel - Applicable element counts per specification and per applicability facet
+import React, { useState, useEffect } from 'react';
+import { Crosshair, Loader2, ChevronDown, ChevronRight, AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { IDSSource, SpecificationCoverage } from '../lib/IDSAuditEngine';
+import { IDSAuditRunner } from '../lib/IDSAuditRunner';
+
+interface IDSCoveragePanelProps {
+  sources: IDSSource[];
+  ifcFileUrl: string | null;
+  getAuditRunner: () => IDSAuditRunner;
+  setNotification: (msg: string) => void;
+}
+
+export const IDSCoveragePanel: React.FC<IDSCoveragePanelProps> = ({ sources, ifcFileUrl, getAuditRunner, setNotification }) => {
+  const [coverage, setCoverage] = useState<SpecificationCoverage[] | null>(null);
+  const [isComputing, setIsComputing] = useState(false);
+  const [isOpen, setIsOpen] = useState(true);
+  const [onlyEmpty, setOnlyEmpty] = useState(false);
+
+  // The report is stale as soon as the IDS set or the model changes
+  useEffect(() => {
+    setCoverage(null);
+  }, [sources, ifcFileUrl]);
+
+  const handleCompute = async () => {
+    if (!ifcFileUrl) return;
+    setIsComputing(true);
+    try {
+      setCoverage(await getAuditRunner().getCoverage(ifcFileUrl, sources));
+      setIsOpen(true);
+    } catch (err) {
+      setNotification(`Erreur de couverture: ${err instanceof Error ? err.message : 'Erreur inconnue'}`);
+    } finally {
+      setIsComputing(false);
+    }
+  };
+
+  // Specifications for another schema are not audited, they don't count as matching nothing
+  const isEmpty = (spec: SpecificationCoverage) => spec.targetsSchema && spec.applicableElements === 0;
+  const emptyCount = coverage?.filter(isEmpty).length || 0;
+  const visible = coverage?.filter(spec => !onlyEmpty || isEmpty(spec)) || [];
+
+  return (
+    <div className="space-y-2">
+      <Button
+        variant="outline"
+        onClick={handleCompute}
+        disabled={!ifcFileUrl || sources.length === 0 || isComputing}
+        className="w-full h-8 text-xs border-slate-600"
+      >
+        {isComputing ? <Loader2 size={14} className="mr-2 animate-spin" /> : <Crosshair size={14} className="mr-2" />}
+        Rapport de couverture
+      </Button>
+
+      {coverage && (
+        <div className="p-3 bg-slate-900 rounded-lg border border-slate-700 space-y-2">
+          <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center justify-between text-xs">
+            <span className="flex items-center gap-1 text-slate-300 font-semibold">
+              {isOpen ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+              Couverture: {coverage.length - emptyCount} / {coverage.length} spécification(s) avec des éléments
+            </span>
+            {emptyCount > 0 && <span className="bg-red-500/30 text-red-300 px-1.5 rounded">{emptyCount} sans élément</span>}
+          </button>
+
+          {isOpen && (
+            <>
+              <label className="flex items-center gap-1 text-[10px] text-slate-400">
+                <input type="checkbox" checked={onlyEmpty} onChange={(e) => setOnlyEmpty(e.target.checked)} />
+                Seulement les spécifications sans élément applicable
+              </label>
+
+              <div className="max-h-80 overflow-y-auto space-y-2">
+                {visible.map((spec, index) => (
+                  <div
+                    key={`${spec.source}\n${spec.name}\n${index}`}
+                    className={`p-2 rounded border text-xs ${isEmpty(spec) ? 'border-red-500/60 bg-red-500/10' : 'border-slate-700 bg-slate-800/50'}`}
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <div className="font-semibold text-slate-200 truncate" title={spec.name}>{spec.name}</div>
+                        {sources.length > 1 && <div className="text-[10px] text-purple-300 truncate">{spec.source}</div>}
+                      </div>
+                      <span
+                        className={`shrink-0 px-1.5 rounded ${isEmpty(spec) ? 'bg-red-500/30 text-red-300' : 'bg-slate-600 text-slate-300'}`}
+                        title="Éléments applicables"
+                      >
+                        {spec.applicableElements}
+                      </span>
+                    </div>
+
+                    {!spec.targetsSchema && (
+                      <div className="text-[10px] text-slate-500 mt-1">Non applicable au schéma du modèle</div>
+                    )}
+                    {isEmpty(spec) && spec.cardinality === 'required' && (
+                      <div className="text-[10px] text-red-300 mt-1 flex items-center gap-1">
+                        <AlertTriangle size={10} /> Spécification obligatoire: l'audit la marquera en échec
+                      </div>
+                    )}
+
+                    <div className="mt-1 space-y-0.5">
+                      {spec.facets.map((facet, facetIndex) => (
+                        <div key={facetIndex}>
+                          <div className="flex justify-between gap-2 text-[10px]">
+                            <span className="text-slate-400 truncate" title={facet.description}>{facet.description}</span>
+                            <span className="font-mono shrink-0" title="Éléments correspondant à cette facette / aux facettes jusqu'ici">
+                              <span className={facet.count === 0 ? 'text-red-400' : 'text-slate-300'}>{facet.count}</span>
+                              {facetIndex > 0 && <span className={facet.cumulative === 0 ? 'text-red-400' : 'text-slate-500'}> → {facet.cumulative}</span>}
+                            </span>
+                          </div>
+                          {facet.hint && <div className="text-[10px] text-orange-300">{facet.hint}</div>}
+                        </div>
+                      ))}
+                      {spec.facets.length === 0 && <div className="text-[10px] text-slate-500">Aucune facette d'applicabilité</div>}
+                    </div>
+                  </div>
+                ))}
+                {visible.length === 0 && (
+                  <div className="text-center text-slate-500 text-xs py-2">Toutes les spécifications ont des éléments applicables</div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,616 @@
+// IDS Editor Panel - Create and edit IDS specifications, with a live count of the elements each applicability selects
+import React, { useState, useEffect, useId, useRef } from 'react';
+import { Plus, Trash2, Download, FilePlus, ShieldCheck, ChevronDown, ChevronRight, Loader2, Wand2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { IDSFile, IDSSpecification, IDSAnyFacet, IDSRequirement, IDSValue, IDSCardinality, IDS_IFC_VERSIONS, getValueDescription } from '../lib/IDSParser';
+import { downloadIDS } from '../lib/IDSSerializer';
+import { ModelCatalog } from '../lib/IDSAuditEngine';
+import { IDSAuditRunner } from '../lib/IDSAuditRunner';
+
+interface IDSEditorPanelProps {
+  idsFiles: IDSFile[]; // Files of the IDS set, any of them can be taken as a starting point
+  ifcFileUrl: string | null;
+  ifcFileName: string;
+  getAuditRunner: () => IDSAuditRunner;
+  onUseForAudit: (ids: IDSFile) => void;
+  setNotification: (msg: string) => void;
+}
+
+type FacetType = IDSAnyFacet['type'];
+type ValueMode = 'any' | 'simple' | 'enumeration' | 'pattern' | 'range' | 'advanced';
+
+const FACET_LABELS: Record<FacetType, string> = {
+  entity: 'Entité',
+  partOf: 'Partie de',
+  classification: 'Classification',
+  attribute: 'Attribut',
+  property: 'Propriété',
+  material: 'Matériau'
+};
+
+const CARDINALITY_LABELS: Record<IDSCardinality, string> = {
+  required: 'Obligatoire',
+  optional: 'Optionnelle',
+  prohibited: 'Interdite'
+};
+
+// minOccurs/maxOccurs kept on requirements for IDS 0.9 compatibility
+const REQUIREMENT_OCCURS: Record<IDSCardinality, Pick<IDSRequirement, 'minOccurs' | 'maxOccurs'>> = {
+  required: { minOccurs: 1, maxOccurs: 'unbounded' },
+  optional: { minOccurs: 0, maxOccurs: 'unbounded' },
+  prohibited: { minOccurs: 0, maxOccurs: 0 }
+};
+
+const VALUE_MODE_LABELS: Record<ValueMode, string> = {
+  any: 'Toute valeur',
+  simple: 'Valeur exacte',
+  enumeration: 'Liste de valeurs',
+  pattern: 'Motif (regex)',
+  range: 'Intervalle',
+  advanced: 'Restriction avancée'
+};
+
+const ATTRIBUTE_NAMES = ['Name', 'Description', 'ObjectType', 'Tag', 'GlobalId', 'LongName', 'PredefinedType'];
+
+const PART_OF_RELATIONS = [
+  'IFCRELAGGREGATES',
+  'IFCRELCONTAINEDINSPATIALSTRUCTURE',
+  'IFCRELNESTS',
+  'IFCRELASSIGNSTOGROUP',
+  'IFCRELVOIDSELEMENT',
+  'IFCRELFILLSELEMENT'
+];
+
+const DATA_TYPES = [
+  'IFCLABEL', 'IFCTEXT', 'IFCIDENTIFIER', 'IFCBOOLEAN', 'IFCLOGICAL', 'IFCINTEGER', 'IFCREAL',
+  'IFCLENGTHMEASURE', 'IFCPOSITIVELENGTHMEASURE', 'IFCAREAMEASURE', 'IFCVOLUMEMEASURE',
+  'IFCTHERMALTRANSMITTANCEMEASURE', 'IFCMASSMEASURE', 'IFCPLANEANGLEMEASURE'
+];
+
+// Delay before the applicability counts are refreshed after an edit
+const PREVIEW_DELAY_MS = 400;
+
+const INPUT_CLASS = 'w-full bg-slate-800 border border-slate-600 rounded px-2 py-1 text-xs text-slate-200';
+
+const simple = (value: string): IDSValue => ({ type: 'simple', value });
+
+function createFacet(type: FacetType): IDSAnyFacet {
+  switch (type) {
+    case 'entity': return { type, name: simple('IFCWALL') };
+    case 'partOf': return { type, entity: simple('IFCBUILDINGSTOREY'), relation: 'IFCRELCONTAINEDINSPATIALSTRUCTURE' };
+    case 'classification': return { type, system: simple('') };
+    case 'attribute': return { type, name: simple('Name') };
+    case 'property': return { type, propertySet: simple(''), baseName: simple('') };
+    case 'material': return { type };
+  }
+}
+
+function createSpecification(number: number): IDSSpecification {
+  return {
+    name: `Spécification ${number}`,
+    ifcVersion: ['IFC4'],
+    cardinality: 'required',
+    applicability: [createFacet('entity')],
+    requirements: []
+  };
+}
+
+function createIDS(): IDSFile {
+  return { title: 'Nouvel IDS', specifications: [createSpecification(1)] };
+}
+
+function getValueMode(value?: IDSValue): ValueMode {
+  if (!value) return 'any';
+  if (value.type === 'simple') return 'simple';
+
+  const { type, base, ...facets } = value;
+  const used = Object.keys(facets).filter(key => facets[key as keyof typeof facets] !== undefined);
+  if (used.length === 1 && used[0] === 'enumeration') return 'enumeration';
+  if (used.length === 1 && used[0] === 'pattern') return 'pattern';
+  if (used.length > 0 && used.every(key => key === 'minInclusive' || key === 'maxInclusive')) return 'range';
+  return 'advanced';
+}
+
+function createValue(mode: ValueMode, previous?: IDSValue): IDSValue | undefined {
+  const text = previous?.type === 'simple' ? previous.value : '';
+  switch (mode) {
+    case 'any': return undefined;
+    case 'simple': return simple(text);
+    case 'enumeration': return { type: 'restriction', base: 'xs:string', enumeration: [text] };
+    case 'pattern': return { type: 'restriction', base: 'xs:string', pattern: [text || '.*'] };
+    case 'range': return { type: 'restriction', base: 'xs:double', minInclusive: 0 };
+    case 'advanced': return previous;
+  }
+}
+
+const parseBound = (text: string): number | undefined => (text.trim() === '' || isNaN(Number(text)) ? undefined : Number(text));
+
+// Input with suggestions; a datalist still allows values that are not in the model
+const SuggestInput = ({ value, suggestions, onChange, placeholder }: {
+  value: string;
+  suggestions?: string[];
+  onChange: (value: string) => void;
+  placeholder?: string;
+}) => {
+  const listId = useId();
+  return (
+    <>
+      <input
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        list={suggestions ? listId : undefined}
+        placeholder={placeholder}
+        className={INPUT_CLASS}
+      />
+      {suggestions && (
+        <datalist id={listId}>
+          {suggestions.map(suggestion => <option key={suggestion} value={suggestion} />)}
+        </datalist>
+      )}
+    </>
+  );
+};
+
+const ValueEditor = ({ label, value, optional, suggestions, onChange }: {
+  label: string;
+  value?: IDSValue;
+  optional?: boolean;
+  suggestions?: string[];
+  onChange: (value: IDSValue | undefined) => void;
+}) => {
+  const mode = getValueMode(value);
+  const modes = (Object.keys(VALUE_MODE_LABELS) as ValueMode[])
+    .filter(m => (m !== 'any' || optional) && (m !== 'advanced' || mode === 'advanced'));
+  const restriction = value?.type === 'restriction' ? value : null;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        <span className="text-[10px] text-slate-400 w-20 shrink-0">{label}</span>
+        <select value={mode} onChange={(e) => onChange(createValue(e.target.value as ValueMode, value))} className={INPUT_CLASS}>
+          {modes.map(m => <option key={m} value={m}>{VALUE_MODE_LABELS[m]}</option>)}
+        </select>
+      </div>
+      {value?.type === 'simple' && (
+        <SuggestInput value={value.value} suggestions={suggestions} onChange={(text) => onChange(simple(text))} />
+      )}
+      {mode === 'enumeration' && restriction && (
+        <input
+          value={(restriction.enumeration || []).join(' | ')}
+          onChange={(e) => onChange({ ...restriction, enumeration: e.target.value.split(/\s*\|\s*/) })}
+          placeholder="valeur1 | valeur2"
+          className={INPUT_CLASS}
+        />
+      )}
+      {mode === 'pattern' && restriction && (
+        // One pattern per line: a value matches when any of them matches, and '|' belongs to the regex syntax
+        <textarea
+          value={(restriction.pattern || []).join('\n')}
+          onChange={(e) => onChange({ ...restriction, pattern: e.target.value.split('\n') })}
+          rows={Math.max(1, restriction.pattern?.length || 1)}
+          placeholder="Un motif par ligne"
+          className={`${INPUT_CLASS} font-mono resize-none`}
+        />
+      )}
+      {mode === 'range' && restriction && (
+        <div className="flex items-center gap-1 text-[10px] text-slate-400">
+          <span>min</span>
+          <input
+            type="number"
+            value={restriction.minInclusive ?? ''}
+            onChange={(e) => onChange({ ...restriction, minInclusive: parseBound(e.target.value) })}
+            className={INPUT_CLASS}
+          />
+          <span>max</span>
+          <input
+            type="number"
+            value={restriction.maxInclusive ?? ''}
+            onChange={(e) => onChange({ ...restriction, maxInclusive: parseBound(e.target.value) })}
+            className={INPUT_CLASS}
+          />
+        </div>
+      )}
+      {mode === 'advanced' && (
+        <div className="text-[10px] text-slate-400 font-mono break-all">{getValueDescription(value)}</div>
+      )}
+    </div>
+  );
+};
+
+const FacetEditor = ({ facet, catalog, onChange }: {
+  facet: IDSAnyFacet;
+  catalog: ModelCatalog | null;
+  onChange: (facet: IDSAnyFacet) => void;
+}) => {
+  const entityNames = catalog?.entities.map(entity => entity.name);
+
+  switch (facet.type) {
+    case 'entity':
+      return (
+        <>
+          <ValueEditor label="Classe IFC" value={facet.name} suggestions={entityNames} onChange={(name) => name && onChange({ ...facet, name })} />
+          <ValueEditor label="Type prédéfini" value={facet.predefinedType} optional onChange={(predefinedType) => onChange({ ...facet, predefinedType })} />
+        </>
+      );
+    case 'partOf':
+      return (
+        <>
+          <div className="flex items-center gap-2">
+            <span className="text-[10px] text-slate-400 w-20 shrink-0">Relation</span>
+            <select value={facet.relation || ''} onChange={(e) => onChange({ ...facet, relation: e.target.value || undefined })} className={INPUT_CLASS}>
+              <option value="">Toute relation</option>
+              {PART_OF_RELATIONS.map(relation => <option key={relation} value={relation}>{relation}</option>)}
+            </select>
+          </div>
+          <ValueEditor label="Parent" value={facet.entity} suggestions={entityNames} onChange={(entity) => entity && onChange({ ...facet, entity })} />
+        </>
+      );
+    case 'classification':
+      return (
+        <>
+          <ValueEditor label="Système" value={facet.system} optional onChange={(system) => onChange({ ...facet, system })} />
+          <ValueEditor label="Code" value={facet.value} optional onChange={(value) => onChange({ ...facet, value })} />
+        </>
+      );
+    case 'attribute':
+      return (
+        <>
+          <ValueEditor label="Attribut" value={facet.name} suggestions={ATTRIBUTE_NAMES} onChange={(name) => name && onChange({ ...facet, name })} />
+          <ValueEditor label="Valeur" value={facet.value} optional onChange={(value) => onChange({ ...facet, value })} />
+        </>
+      );
+    case 'property': {
+      const psetName = facet.propertySet.type === 'simple' ? facet.propertySet.value : null;
+      const pset = catalog?.propertySets.find(p => p.name === psetName);
+      const propertyName = facet.baseName.type === 'simple' ? facet.baseName.value : null;
+      const modelDataType = pset?.properties.find(p => p.name === propertyName)?.dataType;
+      const dataTypes = [...new Set([...(modelDataType ? [modelDataType] : []), ...DATA_TYPES])];
+
+      return (
+        <>
+          <ValueEditor
+            label="Jeu de propriétés"
+            value={facet.propertySet}
+            suggestions={catalog?.propertySets.map(p => p.name)}
+            onChange={(propertySet) => propertySet && onChange({ ...facet, propertySet })}
+          />
+          <ValueEditor
+            label="Propriété"
+            value={facet.baseName}
+            suggestions={pset?.properties.map(p => p.name)}
+            onChange={(baseName) => baseName && onChange({ ...facet, baseName })}
+          />
+          <div className="flex items-center gap-2">
+            <span className="text-[10px] text-slate-400 w-20 shrink-0">Type de donnée</span>
+            <SuggestInput
+              value={facet.dataType || ''}
+              suggestions={dataTypes}
+              placeholder={modelDataType || 'Tout type'}
+              onChange={(dataType) => onChange({ ...facet, dataType: dataType.toUpperCase() || undefined })}
+            />
+          </div>
+          <ValueEditor label="Valeur" value={facet.value} optional onChange={(value) => onChange({ ...facet, value })} />
+        </>
+      );
+    }
+    case 'material':
+      return <ValueEditor label="Matériau" value={facet.value} optional onChange={(value) => onChange({ ...facet, value })} />;
+  }
+};
+
+const AddFacetButton = ({ onAdd }: { onAdd: (type: FacetType) => void }) => {
+  const [type, setType] = useState<FacetType>('property');
+  return (
+    <div className="flex gap-1">
+      <select value={type} onChange={(e) => setType(e.target.value as FacetType)} className={INPUT_CLASS}>
+        {(Object.keys(FACET_LABELS) as FacetType[]).map(t => <option key={t} value={t}>{FACET_LABELS[t]}</option>)}
+      </select>
+      <button onClick={() => onAdd(type)} title="Ajouter" className="px-2 rounded bg-slate-600 hover:bg-slate-500 text-slate-200">
+        <Plus size={12} />
+      </button>
+    </div>
+  );
+};
+
+export const IDSEditorPanel: React.FC<IDSEditorPanelProps> = ({ idsFiles, ifcFileUrl, ifcFileName, getAuditRunner, onUseForAudit, setNotification }) => {
+  const [draft, setDraft] = useState<IDSFile>(() => (idsFiles.length > 0 ? structuredClone(idsFiles[0]) : createIDS()));
+  // Stable keys for the specification cards, in step with draft.specifications
+  const nextSpecKey = useRef(0);
+  const createSpecKeys = (count: number) => Array.from({ length: count }, () => nextSpecKey.current++);
+  const [specKeys, setSpecKeys] = useState<number[]>(() => createSpecKeys(draft.specifications.length));
+  const [openSpec, setOpenSpec] = useState<number | null>(specKeys[0] ?? null);
+  const [catalog, setCatalog] = useState<ModelCatalog | null>(null);
+  const [counts, setCounts] = useState<Map<number, number | null>>(new Map()); // By specification key
+  const [isCounting, setIsCounting] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  // Model entities and property sets for the dropdowns
+  useEffect(() => {
+    setCatalog(null);
+    if (!ifcFileUrl) return;
+    let active = true;
+    getAuditRunner().getCatalog(ifcFileUrl)
+      .then(result => { if (active) setCatalog(result); })
+      .catch(() => { /* Runner disposed, the model changed */ });
+    return () => { active = false; };
+  }, [ifcFileUrl, getAuditRunner]);
+
+  // Live applicability counts, recomputed only when an applicability changes
+  const applicabilityKey = JSON.stringify(draft.specifications.map((spec, i) => [specKeys[i], spec.applicability]));
+  useEffect(() => {
+    if (!ifcFileUrl) {
+      setCounts(new Map());
+      return;
+    }
+    let active = true;
+    const timer = setTimeout(async () => {
+      setIsCounting(true);
+      const applicabilities: [number, IDSAnyFacet[]][] = JSON.parse(applicabilityKey);
+      const runner = getAuditRunner();
+      const results = await Promise.all(applicabilities.map(async ([key, applicability]) =>
+        [key, await runner.countApplicable(ifcFileUrl, applicability).catch(() => null)] as const
+      ));
+      if (!active) return;
+      setCounts(new Map(results));
+      setIsCounting(false);
+    }, PREVIEW_DELAY_MS);
+    return () => {
+      active = false;
+      clearTimeout(timer);
+    };
+  }, [applicabilityKey, ifcFileUrl, getAuditRunner]);
+
+  const updateSpec = (index: number, update: (spec: IDSSpecification) => IDSSpecification) => {
+    setDraft(prev => ({ ...prev, specifications: prev.specifications.map((spec, i) => (i === index ? update(spec) : spec)) }));
+  };
+
+  const addSpecification = () => {
+    const [key] = createSpecKeys(1);
+    setDraft(prev => ({ ...prev, specifications: [...prev.specifications, createSpecification(prev.specifications.length + 1)] }));
+    setSpecKeys(prev => [...prev, key]);
+    setOpenSpec(key);
+  };
+
+  const removeSpecification = (index: number) => {
+    setDraft(prev => ({ ...prev, specifications: prev.specifications.filter((_, i) => i !== index) }));
+    setSpecKeys(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const loadDraft = (ids: IDSFile) => {
+    const keys = createSpecKeys(ids.specifications.length);
+    setDraft(ids);
+    setSpecKeys(keys);
+    setOpenSpec(keys[0] ?? null);
+  };
+
+  // Draft built from the properties observed in the model, to be pruned before export
+  const handleGenerate = async () => {
+    if (!ifcFileUrl) return;
+    setIsGenerating(true);
+    try {
+      const ids = await getAuditRunner().generateIDS(ifcFileUrl, `IDS - ${ifcFileName.replace(/\.ifc$/i, '')}`);
+      loadDraft(ids);
+      setOpenSpec(null);
+      const requirementCount = ids.specifications.reduce((acc, spec) => acc + spec.requirements.length, 0);
+      setNotification(`IDS généré: ${ids.specifications.length} spécification(s), ${requirementCount} exigence(s)`);
+    } catch (err) {
+      setNotification(`Erreur de génération: ${err instanceof Error ? err.message : 'Erreur inconnue'}`);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleExport = () => {
+    try {
+      downloadIDS(draft);
+      setNotification(`IDS exporté: ${draft.specifications.length} spécification(s)`);
+    } catch (err) {
+      setNotification(`Export impossible: ${err instanceof Error ? err.message : 'Erreur inconnue'}`);
+    }
+  };
+
+  const emptyApplicability = draft.specifications.some(spec => spec.applicability.length === 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        <Button variant="outline" onClick={() => loadDraft(createIDS())} className="flex-1 h-8 text-xs border-slate-600">
+          <FilePlus size={14} className="mr-1" /> Nouveau
+        </Button>
+        <select
+          value=""
+          onChange={(e) => loadDraft(structuredClone(idsFiles[Number(e.target.value)]))}
+          disabled={idsFiles.length === 0}
+          className="flex-1 bg-slate-800 border border-slate-600 rounded px-2 py-1 text-xs text-slate-200 disabled:opacity-50"
+        >
+          <option value="">Reprendre un IDS chargé...</option>
+          {idsFiles.map((ids, index) => <option key={index} value={index}>{ids.title}</option>)}
+        </select>
+      </div>
+      <Button
+        variant="outline"
+        onClick={handleGenerate}
+        disabled={!ifcFileUrl || isGenerating}
+        className="w-full h-8 text-xs border-slate-600"
+        title="Une spécification par classe IFC, avec les propriétés, types et valeurs observés dans le modèle"
+      >
+        {isGenerating ? <Loader2 size={14} className="mr-1 animate-spin" /> : <Wand2 size={14} className="mr-1" />}
+        Générer depuis le modèle
+      </Button>
+
+      <div className="p-3 bg-slate-700/50 rounded-lg border border-slate-600 space-y-2">
+        <input value={draft.title} onChange={(e) => setDraft(prev => ({ ...prev, title: e.target.value }))} placeholder="Titre" className={INPUT_CLASS} />
+        <div className="flex gap-2">
+          <input value={draft.version || ''} onChange={(e) => setDraft(prev => ({ ...prev, version: e.target.value || undefined }))} placeholder="Version" className={INPUT_CLASS} />
+          <input value={draft.author || ''} onChange={(e) => setDraft(prev => ({ ...prev, author: e.target.value || undefined }))} placeholder="Auteur (email)" className={INPUT_CLASS} />
+        </div>
+        <input value={draft.purpose || ''} onChange={(e) => setDraft(prev => ({ ...prev, purpose: e.target.value || undefined }))} placeholder="Objectif" className={INPUT_CLASS} />
+        <div className="text-[10px] text-slate-400 flex items-center gap-1">
+          {!ifcFileUrl
+            ? 'Chargez un fichier IFC pour les listes et l\'aperçu des éléments'
+            : catalog
+              ? `${catalog.entities.length} classe(s) IFC, ${catalog.propertySets.length} jeu(x) de propriétés dans le modèle`
+              : <><Loader2 size={10} className="animate-spin" /> Lecture du modèle...</>}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {draft.specifications.map((spec, specIndex) => {
+          const specKey = specKeys[specIndex];
+          const isOpen = openSpec === specKey;
+          const count = counts.get(specKey);
+
+          return (
+            <div key={specKey} className="bg-slate-700/50 rounded-lg overflow-hidden border border-slate-600">
+              <div className="w-full px-3 py-2 flex items-center justify-between bg-slate-700">
+                <button onClick={() => setOpenSpec(isOpen ? null : specKey)} className="flex items-center gap-2 min-w-0 flex-1">
+                  {isOpen ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                  <span className="font-medium text-sm text-slate-200 text-left truncate">{spec.name}</span>
+                </button>
+                <div className="flex items-center gap-2 shrink-0">
+                  {ifcFileUrl && (
+                    <span className={`text-xs px-1.5 rounded ${count === 0 ? 'bg-orange-500/30 text-orange-300' : 'bg-slate-600 text-slate-300'}`} title="Éléments du modèle sélectionnés par l'applicabilité">
+                      {count === null || count === undefined || isCounting ? '…' : count}
+                    </span>
+                  )}
+                  <button onClick={() => removeSpecification(specIndex)} title="Supprimer" className="text-red-400 hover:text-red-300">
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </div>
+
+              {isOpen && (
+                <div className="p-3 space-y-3">
+                  <input value={spec.name} onChange={(e) => updateSpec(specIndex, s => ({ ...s, name: e.target.value }))} placeholder="Nom" className={INPUT_CLASS} />
+                  <input
+                    value={spec.description || ''}
+                    onChange={(e) => updateSpec(specIndex, s => ({ ...s, description: e.target.value || undefined }))}
+                    placeholder="Description"
+                    className={INPUT_CLASS}
+                  />
+                  <div className="flex items-center gap-3 text-xs text-slate-300">
+                    {IDS_IFC_VERSIONS.map(version => (
+                      <label key={version} className="flex items-center gap-1">
+                        <input
+                          type="checkbox"
+                          checked={spec.ifcVersion?.includes(version) ?? false}
+                          onChange={(e) => updateSpec(specIndex, s => ({
+                            ...s,
+                            ifcVersion: e.target.checked
+                              ? [...(s.ifcVersion || []), version]
+                              : (s.ifcVersion || []).filter(v => v !== version)
+                          }))}
+                        />
+                        {version}
+                      </label>
+                    ))}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-[10px] text-slate-400 w-20 shrink-0">Spécification</span>
+                    <select
+                      value={spec.cardinality}
+                      onChange={(e) => updateSpec(specIndex, s => ({ ...s, cardinality: e.target.value as IDSCardinality }))}
+                      className={INPUT_CLASS}
+                    >
+                      {(Object.keys(CARDINALITY_LABELS) as IDSCardinality[]).map(c => <option key={c} value={c}>{CARDINALITY_LABELS[c]}</option>)}
+                    </select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <div className="text-xs font-semibold text-purple-300">Applicabilité</div>
+                    {spec.applicability.map((facet, facetIndex) => (
+                      <div key={facetIndex} className="p-2 bg-slate-800/60 rounded border border-slate-600 space-y-1">
+                        <div className="flex justify-between items-center text-[10px] uppercase text-slate-400">
+                          {FACET_LABELS[facet.type]}
+                          <button
+                            onClick={() => updateSpec(specIndex, s => ({ ...s, applicability: s.applicability.filter((_, i) => i !== facetIndex) }))}
+                            title="Supprimer"
+                            className="text-red-400 hover:text-red-300"
+                          >
+                            <Trash2 size={12} />
+                          </button>
+                        </div>
+                        <FacetEditor
+                          facet={facet}
+                          catalog={catalog}
+                          onChange={(updated) => updateSpec(specIndex, s => ({
+                            ...s,
+                            applicability: s.applicability.map((f, i) => (i === facetIndex ? updated : f))
+                          }))}
+                        />
+                      </div>
+                    ))}
+                    <AddFacetButton onAdd={(type) => updateSpec(specIndex, s => ({ ...s, applicability: [...s.applicability, createFacet(type)] }))} />
+                  </div>
+
+                  <div className="space-y-2">
+                    <div className="text-xs font-semibold text-purple-300">Exigences</div>
+                    {spec.requirements.map((requirement, reqIndex) => {
+                      const updateRequirement = (update: Partial<IDSRequirement>) => updateSpec(specIndex, s => ({
+                        ...s,
+                        requirements: s.requirements.map((r, i) => (i === reqIndex ? { ...r, ...update } : r))
+                      }));
+
+                      return (
+                        <div key={reqIndex} className="p-2 bg-slate-800/60 rounded border border-slate-600 space-y-1">
+                          <div className="flex justify-between items-center gap-2 text-[10px] uppercase text-slate-400">
+                            {FACET_LABELS[requirement.facet.type]}
+                            <div className="flex items-center gap-2">
+                              {requirement.facet.type !== 'entity' && (
+                                <select
+                                  value={requirement.cardinality}
+                                  onChange={(e) => {
+                                    const cardinality = e.target.value as IDSCardinality;
+                                    updateRequirement({ cardinality, ...REQUIREMENT_OCCURS[cardinality] });
+                                  }}
+                                  className="bg-slate-800 border border-slate-600 rounded px-1 text-[10px] text-slate-200 normal-case"
+                                >
+                                  {(Object.keys(CARDINALITY_LABELS) as IDSCardinality[]).map(c => <option key={c} value={c}>{CARDINALITY_LABELS[c]}</option>)}
+                                </select>
+                              )}
+                              <button
+                                onClick={() => updateSpec(specIndex, s => ({ ...s, requirements: s.requirements.filter((_, i) => i !== reqIndex) }))}
+                                title="Supprimer"
+                                className="text-red-400 hover:text-red-300"
+                              >
+                                <Trash2 size={12} />
+                              </button>
+                            </div>
+                          </div>
+                          <FacetEditor facet={requirement.facet} catalog={catalog} onChange={(facet) => updateRequirement({ facet })} />
+                        </div>
+                      );
+                    })}
+                    <AddFacetButton onAdd={(type) => updateSpec(specIndex, s => ({
+                      ...s,
+                      requirements: [...s.requirements, { facet: createFacet(type), cardinality: 'required', ...REQUIREMENT_OCCURS.required }]
+                    }))} />
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        <Button variant="outline" onClick={addSpecification} className="w-full h-8 text-xs border-dashed border-slate-600">
+          <Plus size={14} className="mr-1" /> Ajouter une spécification
+        </Button>
+      </div>
+
+      {emptyApplicability && (
+        <div className="text-xs text-orange-400 text-center">
+          ⚠️ Une spécification sans applicabilité ne sélectionne aucun élément
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Button onClick={() => onUseForAudit(structuredClone(draft))} disabled={draft.specifications.length === 0} className="flex-1 h-8 text-xs bg-purple-600 hover:bg-purple-500">
+          <ShieldCheck size={14} className="mr-1" /> Utiliser pour l'audit
+        </Button>
+        <Button onClick={handleExport} disabled={draft.specifications.length === 0} className="flex-1 h-8 text-xs bg-slate-600 hover:bg-slate-500">
+          <Download size={14} className="mr-1" /> Exporter .ids
+        </Button>
+      </div>
+    </div>
+  );
+};
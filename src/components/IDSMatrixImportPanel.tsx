@@ -0,0 +1,216 @@
+// IDS Matrix Import Panel - Requirements matrix (Excel/CSV) to IDS, with a column-mapping step
+import React, { useState, useRef } from 'react';
+import { FileSpreadsheet, ShieldCheck, Download, AlertTriangle, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { IDSFile, IDS_IFC_VERSIONS } from '../lib/IDSParser';
+import { downloadIDS } from '../lib/IDSSerializer';
+import {
+  MatrixColumn,
+  MatrixMapping,
+  MatrixTable,
+  MatrixIssue,
+  MATRIX_COLUMN_LABELS,
+  readMatrixFile,
+  guessMatrixMapping,
+  getMatrixPhases,
+  convertMatrix
+} from '../lib/IDSMatrixImporter';
+
+interface IDSMatrixImportPanelProps {
+  onUseForAudit: (ids: IDSFile) => void;
+  setNotification: (msg: string) => void;
+}
+
+
+const REQUIRED_COLUMNS: MatrixColumn[] = ['entity', 'propertySet', 'property'];
+
+const SELECT_CLASS = 'w-full bg-slate-800 border border-slate-600 rounded px-2 py-1 text-xs text-slate-200';
+
+export const IDSMatrixImportPanel: React.FC<IDSMatrixImportPanelProps> = ({ onUseForAudit, setNotification }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [table, setTable] = useState<MatrixTable | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [isReading, setIsReading] = useState(false);
+  const [mapping, setMapping] = useState<MatrixMapping | null>(null);
+  const [phase, setPhase] = useState('');
+  const [ifcVersion, setIfcVersion] = useState<string[]>(['IFC4']);
+  const [result, setResult] = useState<{ ids: IDSFile, issues: MatrixIssue[] } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsReading(true);
+    setError(null);
+    setResult(null);
+    try {
+      const read = await readMatrixFile(file);
+      setTable(read);
+      setFileName(file.name);
+      setMapping(guessMatrixMapping(read.headers));
+      setPhase('');
+    } catch (err) {
+      setTable(null);
+      setError(err instanceof Error ? err.message : 'Fichier illisible');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const updateMapping = (column: MatrixColumn, index: number | null) => {
+    setMapping(prev => (prev ? { ...prev, [column]: index } : prev));
+    if (column === 'phase') setPhase('');
+    setResult(null);
+  };
+
+  const handleConvert = async () => {
+    if (!table || !mapping) return;
+    try {
+      const converted = await convertMatrix(table, mapping, {
+        title: fileName.replace(/\.[^.]+$/, '') + (phase ? ` - ${phase}` : ''),
+        ifcVersion,
+        phase: phase || undefined
+      });
+      setResult(converted);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Conversion impossible');
+    }
+  };
+
+  const phases = table && mapping ? getMatrixPhases(table, mapping) : [];
+  const missingColumns = mapping ? REQUIRED_COLUMNS.filter(column => mapping[column] === null) : REQUIRED_COLUMNS;
+  const requirementCount = result?.ids.specifications.reduce((acc, spec) => acc + spec.requirements.length, 0) || 0;
+
+  return (
+    <div className="space-y-2">
+      <input type="file" ref={fileInputRef} onChange={handleFile} accept=".xlsx,.csv,.txt" className="hidden" />
+      <Button
+        variant="outline"
+        onClick={() => fileInputRef.current?.click()}
+        disabled={isReading}
+        className="w-full h-9 text-xs border-dashed border-slate-600 hover:border-purple-500 hover:bg-purple-500/10"
+      >
+        {isReading ? <Loader2 size={14} className="mr-2 animate-spin" /> : <FileSpreadsheet size={14} className="mr-2" />}
+        Importer une matrice d'exigences (Excel/CSV)
+      </Button>
+
+      {error && (
+        <div className="p-2 bg-red-500/20 border border-red-500 rounded text-xs text-red-300">{error}</div>
+      )}
+
+      {table && mapping && (
+        <div className="p-3 bg-slate-700/50 rounded-lg border border-slate-600 space-y-2">
+          <div className="text-xs text-slate-300">
+            <span className="font-semibold">{fileName}</span> • {table.rows.length} ligne(s)
+          </div>
+
+          {(Object.keys(MATRIX_COLUMN_LABELS) as MatrixColumn[]).map(column => (
+            <div key={column} className="flex items-center gap-2">
+              <span className="text-[10px] text-slate-400 w-28 shrink-0">
+                {MATRIX_COLUMN_LABELS[column]}{REQUIRED_COLUMNS.includes(column) && ' *'}
+              </span>
+              <select
+                value={mapping[column] ?? ''}
+                onChange={(e) => updateMapping(column, e.target.value === '' ? null : Number(e.target.value))}
+                className={SELECT_CLASS}
+              >
+                <option value="">— Aucune —</option>
+                {table.headers.map((header, index) => (
+                  <option key={index} value={index}>{header || `Colonne ${index + 1}`}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+
+          {phases.length > 0 && (
+            <div className="flex items-center gap-2">
+              <span className="text-[10px] text-slate-400 w-28 shrink-0">Phase à importer</span>
+              <select value={phase} onChange={(e) => { setPhase(e.target.value); setResult(null); }} className={SELECT_CLASS}>
+                <option value="">Toutes (une spécification par phase)</option>
+                {phases.map(p => <option key={p} value={p}>{p}</option>)}
+              </select>
+            </div>
+          )}
+
+          <div className="flex items-center gap-3 text-xs text-slate-300">
+            {IDS_IFC_VERSIONS.map(version => (
+              <label key={version} className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={ifcVersion.includes(version)}
+                  onChange={(e) => {
+                    setIfcVersion(prev => (e.target.checked ? [...prev, version] : prev.filter(v => v !== version)));
+                    setResult(null);
+                  }}
+                />
+                {version}
+              </label>
+            ))}
+          </div>
+
+          <Button
+            onClick={handleConvert}
+            disabled={missingColumns.length > 0}
+            className="w-full h-8 text-xs bg-slate-600 hover:bg-slate-500"
+          >
+            Convertir en IDS
+          </Button>
+          {missingColumns.length > 0 && (
+            <div className="text-[10px] text-orange-400">
+              Colonnes à associer: {missingColumns.map(column => MATRIX_COLUMN_LABELS[column]).join(', ')}
+            </div>
+          )}
+
+          {result && (
+            <div className="space-y-2">
+              <div className="text-xs text-slate-300">
+                {result.ids.specifications.length} spécification(s), {requirementCount} exigence(s)
+              </div>
+              {result.issues.length > 0 && (
+                <div className="p-2 bg-slate-900 rounded border border-orange-500/50 text-xs space-y-1">
+                  <div className="text-orange-300 font-semibold flex items-center gap-1">
+                    <AlertTriangle size={12} /> {result.issues.length} ligne(s) à vérifier
+                  </div>
+                  <div className="max-h-40 overflow-y-auto space-y-1">
+                    {result.issues.map((issue, index) => (
+                      <div key={index} className="flex gap-2">
+                        <span className="font-mono text-slate-500 shrink-0">Ligne {issue.row}</span>
+                        <span className="text-slate-300">{issue.message}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+              <div className="flex gap-2">
+                <Button
+                  onClick={() => onUseForAudit(result.ids)}
+                  disabled={result.ids.specifications.length === 0}
+                  className="flex-1 h-8 text-xs bg-purple-600 hover:bg-purple-500"
+                >
+                  <ShieldCheck size={14} className="mr-1" /> Utiliser pour l'audit
+                </Button>
+                <Button
+                  onClick={() => {
+                    try {
+                      downloadIDS(result.ids);
+                      setNotification(`IDS exporté: ${result.ids.specifications.length} spécification(s)`);
+                    } catch (err) {
+                      setNotification(`Export impossible: ${err instanceof Error ? err.message : 'Erreur inconnue'}`);
+                    }
+                  }}
+                  disabled={result.ids.specifications.length === 0}
+                  className="flex-1 h-8 text-xs bg-slate-600 hover:bg-slate-500"
+                >
+                  <Download size={14} className="mr-1" /> Exporter .ids
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,230 @@
+// Spatial Tree Panel - Virtualized spatial structure with visibility, selection sync and search
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { ChevronDown, ChevronRight, Search, Eye } from 'lucide-react';
+import { SpatialTreeNode, getSubtreeIds } from '../lib/IFCSpatialTree';
+
+interface SpatialTreePanelProps {
+  tree: SpatialTreeNode[] | null;
+  selectedId: number | null;
+  hiddenElements: Set<number>;
+  onHiddenChange: (hidden: Set<number>) => void;
+  onSelect: (node: SpatialTreeNode) => void;
+}
+
+interface TreeRow {
+  node: SpatialTreeNode;
+  depth: number;
+}
+
+// Fixed row height, only the rows in view (plus a margin) are rendered
+const ROW_HEIGHT = 24;
+const OVERSCAN_ROWS = 10;
+
+// Project, site and building are open at first, storeys stay closed
+const INITIAL_EXPANDED_DEPTH = 3;
+
+export const SpatialTreePanel: React.FC<SpatialTreePanelProps> = ({ tree, selectedId, hiddenElements, onHiddenChange, onSelect }) => {
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+  const [query, setQuery] = useState('');
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const pendingScrollRef = useRef<number | null>(null);
+
+  const parents = useMemo(() => {
+    const map = new Map<number, SpatialTreeNode>();
+    const walk = (node: SpatialTreeNode) => node.children.forEach(child => {
+      map.set(child.expressID, node);
+      walk(child);
+    });
+    tree?.forEach(walk);
+    return map;
+  }, [tree]);
+
+  useEffect(() => {
+    const initial = new Set<number>();
+    const walk = (node: SpatialTreeNode, depth: number) => {
+      if (depth >= INITIAL_EXPANDED_DEPTH) return;
+      initial.add(node.expressID);
+      node.children.forEach(child => walk(child, depth + 1));
+    };
+    tree?.forEach(root => walk(root, 0));
+    setExpanded(initial);
+    setQuery('');
+  }, [tree]);
+
+  // Selection from the 3D view: open the ancestors, the row is scrolled into view once rendered
+  useEffect(() => {
+    if (selectedId === null) return;
+    const ancestors: number[] = [];
+    for (let parent = parents.get(selectedId); parent; parent = parents.get(parent.expressID)) {
+      ancestors.push(parent.expressID);
+    }
+    if (ancestors.length > 0) setExpanded(prev => new Set([...prev, ...ancestors]));
+    pendingScrollRef.current = selectedId;
+  }, [selectedId, parents]);
+
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const updateHeight = () => setViewportHeight(viewport.clientHeight);
+    updateHeight();
+    window.addEventListener('resize', updateHeight);
+    return () => window.removeEventListener('resize', updateHeight);
+  }, [tree]);
+
+  // Nodes matching the search, with their ancestors so that matches keep their place in the hierarchy
+  const matches = useMemo(() => {
+    const text = query.trim().toLowerCase();
+    if (!text || !tree) return null;
+    const shown = new Set<number>();
+    const walk = (node: SpatialTreeNode): boolean => {
+      const childMatch = node.children.map(walk).some(Boolean);
+      const match = childMatch ||
+        node.name.toLowerCase().includes(text) ||
+        node.type.toLowerCase().includes(text) ||
+        String(node.expressID) === text;
+      if (match) shown.add(node.expressID);
+      return match;
+    };
+    tree.forEach(walk);
+    return shown;
+  }, [tree, query]);
+
+  // Search results are shown fully expanded
+  const rows = useMemo(() => {
+    const result: TreeRow[] = [];
+    const walk = (node: SpatialTreeNode, depth: number) => {
+      if (matches && !matches.has(node.expressID)) return;
+      result.push({ node, depth });
+      if (matches || expanded.has(node.expressID)) node.children.forEach(child => walk(child, depth + 1));
+    };
+    tree?.forEach(root => walk(root, 0));
+    return result;
+  }, [tree, expanded, matches]);
+
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (pendingScrollRef.current === null || !viewport) return;
+    const index = rows.findIndex(row => row.node.expressID === pendingScrollRef.current);
+    if (index < 0) return;
+    pendingScrollRef.current = null;
+    const top = index * ROW_HEIGHT;
+    if (top < viewport.scrollTop || top + ROW_HEIGHT > viewport.scrollTop + viewport.clientHeight) {
+      viewport.scrollTop = Math.max(0, top - viewport.clientHeight / 2);
+    }
+  }, [rows]);
+
+  // Hidden / total objects below each node (node included), for the checkbox states
+  const visibility = useMemo(() => {
+    const counts = new Map<number, { hidden: number, total: number }>();
+    const walk = (node: SpatialTreeNode): { hidden: number, total: number } => {
+      const count = { hidden: hiddenElements.has(node.expressID) ? 1 : 0, total: 1 };
+      for (const child of node.children) {
+        const childCount = walk(child);
+        count.hidden += childCount.hidden;
+        count.total += childCount.total;
+      }
+      counts.set(node.expressID, count);
+      return count;
+    };
+    tree?.forEach(walk);
+    return counts;
+  }, [tree, hiddenElements]);
+
+  const toggleExpanded = (expressID: number) => {
+    setExpanded(prev => {
+      const newSet = new Set(prev);
+      if (newSet.has(expressID)) newSet.delete(expressID);
+      else newSet.add(expressID);
+      return newSet;
+    });
+  };
+
+  const toggleVisibility = (node: SpatialTreeNode, visible: boolean) => {
+    const hidden = new Set(hiddenElements);
+    for (const id of getSubtreeIds(node)) {
+      if (visible) hidden.delete(id);
+      else hidden.add(id);
+    }
+    onHiddenChange(hidden);
+  };
+
+  if (!tree) {
+    return <div className="text-center text-slate-500 text-sm py-8">Chargez un fichier IFC pour afficher son arborescence</div>;
+  }
+  if (tree.length === 0) {
+    return <div className="text-center text-slate-500 text-sm py-8">Aucun IfcProject dans le modèle</div>;
+  }
+
+  const firstRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS);
+  const lastRow = Math.min(rows.length, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN_ROWS);
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Search size={14} className="absolute left-2 top-1/2 -translate-y-1/2 text-slate-500" />
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Rechercher (nom, type IFC, Express ID)"
+          className="w-full bg-slate-800 border border-slate-600 rounded pl-7 pr-2 py-1 text-xs text-slate-200"
+        />
+      </div>
+
+      <div className="flex items-center justify-between text-[10px] text-slate-400">
+        <span>
+          {matches ? `${rows.length} nœud(s) affiché(s)` : `${tree.reduce((acc, root) => acc + root.elementCount, 0)} élément(s)`}
+          {hiddenElements.size > 0 && ` • ${hiddenElements.size} masqué(s)`}
+        </span>
+        {hiddenElements.size > 0 && (
+          <button onClick={() => onHiddenChange(new Set())} className="flex items-center gap-1 text-purple-300 hover:text-purple-200">
+            <Eye size={12} /> Tout afficher
+          </button>
+        )}
+      </div>
+
+      <div
+        ref={viewportRef}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        className="h-[calc(100vh-12rem)] overflow-y-auto bg-slate-900 rounded border border-slate-700"
+      >
+        <div style={{ height: rows.length * ROW_HEIGHT, position: 'relative' }}>
+          {rows.slice(firstRow, lastRow).map(({ node, depth }, index) => {
+            const count = visibility.get(node.expressID) || { hidden: 0, total: 1 };
+            const isSelected = node.expressID === selectedId;
+            return (
+              <div
+                key={node.expressID}
+                onClick={() => onSelect(node)}
+                className={`absolute left-0 right-0 flex items-center gap-1 pr-2 text-xs cursor-pointer ${isSelected ? 'bg-purple-500/30 text-white' : 'hover:bg-slate-700/50 text-slate-300'}`}
+                style={{ top: (firstRow + index) * ROW_HEIGHT, height: ROW_HEIGHT, paddingLeft: depth * 12 + 4 }}
+                title={`${node.type} #${node.expressID}`}
+              >
+                <button
+                  onClick={(e) => { e.stopPropagation(); toggleExpanded(node.expressID); }}
+                  className={`shrink-0 text-slate-500 hover:text-slate-200 ${node.children.length === 0 || matches ? 'invisible' : ''}`}
+                >
+                  {expanded.has(node.expressID) ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+                </button>
+                <input
+                  type="checkbox"
+                  checked={count.hidden === 0}
+                  ref={(el) => { if (el) el.indeterminate = count.hidden > 0 && count.hidden < count.total; }}
+                  onClick={(e) => e.stopPropagation()}
+                  onChange={(e) => toggleVisibility(node, e.target.checked)}
+                  className="shrink-0"
+                />
+                <span className={`truncate ${node.spatial ? 'font-semibold' : ''}`}>{node.name}</span>
+                <span className="truncate text-[10px] text-slate-500">{node.type}</span>
+                {node.elementCount > 0 && (
+                  <span className="ml-auto shrink-0 bg-slate-700 text-slate-300 px-1.5 rounded text-[10px]">{node.elementCount}</span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,7 +1,9 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
+import React, { useEffect, useRef, useState, useCallback, forwardRef, useImperativeHandle } from 'react';
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
-import { setIfcApiForAudit } from '../App';
+import { getMaterialEntries, IFCMaterialEntry } from '../lib/IFCMaterials';
+import { indexRelations, getPropertyDefinitionIds, getObjectPropertySetIds, readPropertySet, IFCPropertySetEntry, IFCQuantityKind } from '../lib/IFCProperties';
+import { buildSpatialTree, SpatialTreeNode } from '../lib/IFCSpatialTree';
 
 // IFC Property types
 export interface IFCProperty {
@@ -21,17 +23,36 @@ export interface SelectedElementInfo {
   propertySets: IFCPropertySet[];
 }
 
+export type ComplianceStatus = 'PASS' | 'FAIL' | 'WARNING';
+
+// Commands from the rest of the app, e.g. selecting an element from an audit result
+export interface ThreeViewerHandle {
+  // frameIDs: objects to frame instead of the element itself, e.g. the contents of a storey
+  selectElement: (expressID: number, frameIDs?: number[]) => Promise<void>;
+}
+
 interface ThreeViewerProps {
   ifcFileUrl: string | null;
   onSelect: (info: SelectedElementInfo | null) => void;
   setNotification: (msg: string) => void;
+  onModelLoaded?: (info: { schema: string, spatialTree: SpatialTreeNode[] }) => void;
+  // Colour by compliance mode: audit status per expressID, elements missing from the map are ghosted. null turns it off.
+  elementStatuses?: Map<number, ComplianceStatus> | null;
+  // Elements hidden from the spatial tree
+  hiddenElements?: Set<number>;
 }
 
 // Highlight color - VERT FLUO
 const HIGHLIGHT_COLOR = 0x39ff14;
 
+// Colour by compliance mode
+const COMPLIANCE_COLORS: Record<ComplianceStatus, number> = { FAIL: 0xef4444, WARNING: 0xf97316, PASS: 0x22c55e };
+const COMPLIANCE_LABELS: Record<ComplianceStatus, string> = { FAIL: 'Non conforme', WARNING: 'Avertissement', PASS: 'Conforme' };
+const GHOST_OPACITY = 0.08;
+
 // IFC Type codes for property-related entities
 const IFCRELDEFINESBYPROPERTIES = 4186316022;
+const IFCRELASSOCIATESMATERIAL = 2655215786;
 const IFCPROPERTYSET = 1451395588;
 const IFCELEMENTQUANTITY = 1883228015;
 const IFCPROPERTYSINGLEVALUE = 3650150729;
@@ -43,7 +64,63 @@ const IFCQUANTITYVOLUME = 3377609919;
 const IFCQUANTITYCOUNT = 2093928680;
 const IFCQUANTITYWEIGHT = 825690147;
 
-export const ThreeViewer: React.FC<ThreeViewerProps> = ({ ifcFileUrl, onSelect, setNotification }) => {
+const QUANTITY_UNITS: Record<Exclude<IFCQuantityKind, 'count'>, string> = { length: 'm', area: 'm²', volume: 'm³', weight: 'kg', time: 's' };
+
+// One panel row per property, quantities with their unit
+const formatPropertySet = (pset: IFCPropertySetEntry): IFCProperty[] =>
+  pset.properties.map(prop => {
+    if (!prop.quantity) return { name: prop.name, value: prop.value };
+    if (prop.quantity === 'count') return { name: prop.name, value: String(prop.value) };
+    return { name: prop.name, value: `${Number(prop.value).toFixed(3)} ${QUANTITY_UNITS[prop.quantity]}` };
+  });
+
+// One panel row per material, set, layer, profile or constituent
+const formatMaterialEntries = (entries: IFCMaterialEntry[]): IFCProperty[] => {
+  const rows: IFCProperty[] = [];
+  const counters = { layer: 0, profile: 0, constituent: 0 };
+
+  for (const entry of entries) {
+    const materialName = entry.material?.name || entry.name || 'Sans nom';
+    switch (entry.kind) {
+      case 'material':
+        rows.push({ name: 'Matériau', value: entry.category ? `${entry.name} (${entry.category})` : entry.name });
+        break;
+      case 'layerSet':
+        rows.push({ name: 'Jeu de couches', value: entry.name || 'Sans nom' });
+        break;
+      case 'layer':
+        rows.push({
+          name: `Couche ${++counters.layer}`,
+          value: entry.thickness !== undefined ? `${materialName} (${entry.thickness.toFixed(3)} m)` : materialName
+        });
+        break;
+      case 'profileSet':
+        rows.push({ name: 'Jeu de profils', value: entry.name || 'Sans nom' });
+        break;
+      case 'profile':
+        rows.push({ name: `Profil ${++counters.profile}`, value: entry.name && entry.material?.name ? `${entry.name} - ${entry.material.name}` : materialName });
+        break;
+      case 'constituentSet':
+        rows.push({ name: 'Jeu de constituants', value: entry.name || 'Sans nom' });
+        break;
+      case 'constituent': {
+        const label = entry.name && entry.material?.name ? `${entry.name} - ${entry.material.name}` : materialName;
+        rows.push({
+          name: `Constituant ${++counters.constituent}`,
+          value: entry.fraction !== undefined ? `${label} (${Math.round(entry.fraction * 100)}%)` : label
+        });
+        break;
+      }
+      case 'list':
+        rows.push({ name: 'Liste de matériaux', value: entries.filter(e => e.kind === 'material').length });
+        break;
+    }
+  }
+
+  return rows;
+};
+
+export const ThreeViewer = forwardRef<ThreeViewerHandle, ThreeViewerProps>(({ ifcFileUrl, onSelect, setNotification, onModelLoaded, elementStatuses, hiddenElements }, ref) => {
   const mountRef = useRef<HTMLDivElement>(null);
   const sceneRef = useRef<THREE.Scene | null>(null);
   const modelRef = useRef<THREE.Object3D | null>(null);
@@ -56,6 +133,7 @@ export const ThreeViewer: React.FC<ThreeViewerProps> = ({ ifcFileUrl, onSelect,
   const selectedMeshRef = useRef<THREE.Mesh | null>(null);
   const originalMaterialRef = useRef<THREE.Material | null>(null);
   const propertyRelsRef = useRef<Map<number, number[]>>(new Map());
+  const materialRelsRef = useRef<Map<number, number[]>>(new Map());
   
   const [isLoading, setIsLoading] = useState(false);
   const [loadingMessage, setLoadingMessage] = useState("Chargement...");
@@ -63,10 +141,12 @@ export const ThreeViewer: React.FC<ThreeViewerProps> = ({ ifcFileUrl, onSelect,
 
   const onSelectRef = useRef(onSelect);
   const setNotificationRef = useRef(setNotification);
+  const onModelLoadedRef = useRef(onModelLoaded);
   useEffect(() => {
     onSelectRef.current = onSelect;
     setNotificationRef.current = setNotification;
-  }, [onSelect, setNotification]);
+    onModelLoadedRef.current = onModelLoaded;
+  }, [onSelect, setNotification, onModelLoaded]);
 
   // Helper to safely get a value from IFC
   const getIfcValue = (obj: any): string | number | boolean | null => {
@@ -79,79 +159,6 @@ export const ThreeViewer: React.FC<ThreeViewerProps> = ({ ifcFileUrl, onSelect,
     return obj;
   };
 
-  // Extract property value based on type
-  const extractPropertyValue = useCallback((ifcApi: any, modelID: number, propRef: any): IFCProperty | null => {
-    try {
-      const propID = typeof propRef === 'object' ? propRef.value : propRef;
-      if (!propID) return null;
-      
-      const propLine = ifcApi.GetLine(modelID, propID);
-      if (!propLine) return null;
-      
-      const propName = getIfcValue(propLine.Name) || 'Unknown';
-      let propValue: string | number | boolean | null = null;
-
-      // IfcPropertySingleValue
-      if (propLine.NominalValue !== undefined) {
-        propValue = getIfcValue(propLine.NominalValue);
-      }
-      // IfcPropertyListValue
-      else if (propLine.ListValues !== undefined && Array.isArray(propLine.ListValues)) {
-        const values = propLine.ListValues.map((v: any) => getIfcValue(v)).filter((v: any) => v !== null);
-        propValue = values.join(', ');
-      }
-      // IfcPropertyEnumeratedValue
-      else if (propLine.EnumerationValues !== undefined && Array.isArray(propLine.EnumerationValues)) {
-        const values = propLine.EnumerationValues.map((v: any) => getIfcValue(v)).filter((v: any) => v !== null);
-        propValue = values.join(', ');
-      }
-
-      if (propName && propValue !== null) {
-        return { name: String(propName), value: propValue };
-      }
-      return null;
-    } catch (e) {
-      return null;
-    }
-  }, []);
-
-  // Extract quantity value
-  const extractQuantityValue = useCallback((ifcApi: any, modelID: number, qtyRef: any): IFCProperty | null => {
-    try {
-      const qtyID = typeof qtyRef === 'object' ? qtyRef.value : qtyRef;
-      if (!qtyID) return null;
-      
-      const qtyLine = ifcApi.GetLine(modelID, qtyID);
-      if (!qtyLine) return null;
-      
-      const qtyName = getIfcValue(qtyLine.Name) || 'Unknown';
-      let qtyValue: string | null = null;
-
-      if (qtyLine.LengthValue !== undefined) {
-        const val = getIfcValue(qtyLine.LengthValue);
-        qtyValue = val !== null ? `${Number(val).toFixed(3)} m` : null;
-      } else if (qtyLine.AreaValue !== undefined) {
-        const val = getIfcValue(qtyLine.AreaValue);
-        qtyValue = val !== null ? `${Number(val).toFixed(3)} m²` : null;
-      } else if (qtyLine.VolumeValue !== undefined) {
-        const val = getIfcValue(qtyLine.VolumeValue);
-        qtyValue = val !== null ? `${Number(val).toFixed(3)} m³` : null;
-      } else if (qtyLine.CountValue !== undefined) {
-        qtyValue = String(getIfcValue(qtyLine.CountValue));
-      } else if (qtyLine.WeightValue !== undefined) {
-        const val = getIfcValue(qtyLine.WeightValue);
-        qtyValue = val !== null ? `${Number(val).toFixed(3)} kg` : null;
-      }
-
-      if (qtyName && qtyValue !== null) {
-        return { name: String(qtyName), value: qtyValue };
-      }
-      return null;
-    } catch (e) {
-      return null;
-    }
-  }, []);
-
   // Get all PropertySets for an element
   const getElementProperties = useCallback(async (expressID: number): Promise<SelectedElementInfo | null> => {
     const ifcApi = ifcApiRef.current;
@@ -196,43 +203,10 @@ export const ThreeViewer: React.FC<ThreeViewerProps> = ({ ifcFileUrl, onSelect,
       propertySets.push({ name: 'Informations générales', properties: basicProps });
 
       // 2. Get PropertySets via cached relations
-      const relIDs = propertyRelsRef.current.get(expressID) || [];
-      
-      for (const relID of relIDs) {
-        try {
-          const rel = ifcApi.GetLine(modelID, relID);
-          if (!rel || !rel.RelatingPropertyDefinition) continue;
-
-          const propDefRef = rel.RelatingPropertyDefinition;
-          const propDefID = typeof propDefRef === 'object' ? propDefRef.value : propDefRef;
-          if (!propDefID) continue;
-
-          const propDef = ifcApi.GetLine(modelID, propDefID);
-          if (!propDef) continue;
-
-          const psetName = getIfcValue(propDef.Name) || 'PropertySet';
-          const properties: IFCProperty[] = [];
-
-          // IfcPropertySet - HasProperties
-          if (propDef.HasProperties && Array.isArray(propDef.HasProperties)) {
-            for (const propRef of propDef.HasProperties) {
-              const prop = extractPropertyValue(ifcApi, modelID, propRef);
-              if (prop) properties.push(prop);
-            }
-          }
-          // IfcElementQuantity - Quantities
-          else if (propDef.Quantities && Array.isArray(propDef.Quantities)) {
-            for (const qtyRef of propDef.Quantities) {
-              const qty = extractQuantityValue(ifcApi, modelID, qtyRef);
-              if (qty) properties.push(qty);
-            }
-          }
-
-          if (properties.length > 0) {
-            propertySets.push({ name: String(psetName), properties });
-          }
-        } catch (e) {
-          // Skip invalid relations
+      for (const propDefID of getPropertyDefinitionIds(ifcApi, modelID, propertyRelsRef.current.get(expressID) || [])) {
+        const pset = readPropertySet(ifcApi, modelID, propDefID);
+        if (pset && pset.properties.length > 0) {
+          propertySets.push({ name: pset.name || 'PropertySet', properties: formatPropertySet(pset) });
         }
       }
 
@@ -244,27 +218,11 @@ export const ThreeViewer: React.FC<ThreeViewerProps> = ({ ifcFileUrl, onSelect,
             const typeRel = ifcApi.GetLine(modelID, typeRelID);
             if (typeRel?.RelatingType) {
               const typeID = typeof typeRel.RelatingType === 'object' ? typeRel.RelatingType.value : typeRel.RelatingType;
-              const typeObj = ifcApi.GetLine(modelID, typeID);
-              
-              if (typeObj?.HasPropertySets && Array.isArray(typeObj.HasPropertySets)) {
-                for (const psetRef of typeObj.HasPropertySets) {
-                  const psetID = typeof psetRef === 'object' ? psetRef.value : psetRef;
-                  const pset = ifcApi.GetLine(modelID, psetID);
-                  if (!pset) continue;
-
-                  const psetName = getIfcValue(pset.Name) || 'Type Properties';
-                  const properties: IFCProperty[] = [];
-
-                  if (pset.HasProperties && Array.isArray(pset.HasProperties)) {
-                    for (const propRef of pset.HasProperties) {
-                      const prop = extractPropertyValue(ifcApi, modelID, propRef);
-                      if (prop) properties.push(prop);
-                    }
-                  }
-
-                  if (properties.length > 0) {
-                    propertySets.push({ name: `[Type] ${psetName}`, properties });
-                  }
+
+              for (const psetID of getObjectPropertySetIds(ifcApi, modelID, typeID, propertyRelsRef.current)) {
+                const pset = readPropertySet(ifcApi, modelID, psetID);
+                if (pset && pset.properties.length > 0) {
+                  propertySets.push({ name: `[Type] ${pset.name || 'Type Properties'}`, properties: formatPropertySet(pset) });
                 }
               }
             }
@@ -274,54 +232,18 @@ export const ThreeViewer: React.FC<ThreeViewerProps> = ({ ifcFileUrl, onSelect,
         // Type properties not available
       }
 
-      // 4. Try to get Material associations
+      // 4. Material associations, expanded through usages and layer/profile/constituent sets
       try {
-        if (element.HasAssociations && Array.isArray(element.HasAssociations)) {
-          const matProps: IFCProperty[] = [];
-          
-          for (const assocRef of element.HasAssociations) {
-            const assocID = typeof assocRef === 'object' ? assocRef.value : assocRef;
-            const assoc = ifcApi.GetLine(modelID, assocID);
-            
-            if (assoc?.RelatingMaterial) {
-              const matID = typeof assoc.RelatingMaterial === 'object' ? assoc.RelatingMaterial.value : assoc.RelatingMaterial;
-              const material = ifcApi.GetLine(modelID, matID);
-              
-              if (material) {
-                const matName = getIfcValue(material.Name);
-                if (matName) {
-                  matProps.push({ name: 'Matériau', value: matName });
-                }
-                
-                // For layered materials
-                if (material.MaterialLayers && Array.isArray(material.MaterialLayers)) {
-                  for (let i = 0; i < material.MaterialLayers.length; i++) {
-                    const layerRef = material.MaterialLayers[i];
-                    const layerID = typeof layerRef === 'object' ? layerRef.value : layerRef;
-                    const layer = ifcApi.GetLine(modelID, layerID);
-                    if (layer) {
-                      const thickness = getIfcValue(layer.LayerThickness);
-                      if (layer.Material) {
-                        const layerMatID = typeof layer.Material === 'object' ? layer.Material.value : layer.Material;
-                        const layerMat = ifcApi.GetLine(modelID, layerMatID);
-                        const layerMatName = getIfcValue(layerMat?.Name);
-                        if (layerMatName) {
-                          matProps.push({ 
-                            name: `Couche ${i + 1}`, 
-                            value: thickness ? `${layerMatName} (${Number(thickness).toFixed(3)} m)` : layerMatName 
-                          });
-                        }
-                      }
-                    }
-                  }
-                }
-              }
-            }
-          }
-          
-          if (matProps.length > 0) {
-            propertySets.push({ name: 'Matériaux', properties: matProps });
-          }
+        const matProps: IFCProperty[] = [];
+
+        for (const relID of materialRelsRef.current.get(expressID) || []) {
+          const rel = ifcApi.GetLine(modelID, relID);
+          const matID = typeof rel?.RelatingMaterial === 'object' ? rel.RelatingMaterial?.value : rel?.RelatingMaterial;
+          if (matID) matProps.push(...formatMaterialEntries(getMaterialEntries(ifcApi, modelID, matID)));
+        }
+
+        if (matProps.length > 0) {
+          propertySets.push({ name: 'Matériaux', properties: matProps });
         }
       } catch (e) {
         // Materials not available
@@ -342,7 +264,7 @@ export const ThreeViewer: React.FC<ThreeViewerProps> = ({ ifcFileUrl, onSelect,
         propertySets: [{ name: 'Informations', properties: [{ name: 'Express ID', value: expressID }] }]
       };
     }
-  }, [extractPropertyValue, extractQuantityValue]);
+  }, []);
 
   // Highlight mesh
   const highlightMesh = useCallback((mesh: THREE.Mesh | null) => {
@@ -370,6 +292,24 @@ export const ThreeViewer: React.FC<ThreeViewerProps> = ({ ifcFileUrl, onSelect,
     }
   }, []);
 
+  // Moves the camera onto the bounding box of the objects, keeping the current viewing direction
+  const frameObjects = useCallback((objects: THREE.Object3D[]) => {
+    const camera = cameraRef.current;
+    const controls = controlsRef.current;
+    if (!camera || !controls || objects.length === 0) return;
+
+    const box = new THREE.Box3();
+    objects.forEach(object => box.expandByObject(object));
+    const center = box.getCenter(new THREE.Vector3());
+    // At least a metre, so that small elements are not framed from inside
+    const maxDim = Math.max(...box.getSize(new THREE.Vector3()).toArray(), 1);
+    const direction = camera.position.clone().sub(controls.target).normalize();
+
+    camera.position.copy(center).addScaledVector(direction, maxDim * 2.5);
+    controls.target.copy(center);
+    controls.update();
+  }, []);
+
   // Add mock data
   const addMockData = useCallback((scene: THREE.Scene) => {
     try {
@@ -449,7 +389,8 @@ export const ThreeViewer: React.FC<ThreeViewerProps> = ({ ifcFileUrl, onSelect,
           if (modelRef.current) objectsToTest.push(modelRef.current);
           if (mockGroupRef.current) mockGroupRef.current.children.forEach(child => objectsToTest.push(child));
 
-          const intersects = raycaster.intersectObjects(objectsToTest, true);
+          // Hidden meshes are still hit by the raycaster
+          const intersects = raycaster.intersectObjects(objectsToTest, true).filter(hit => hit.object.visible);
 
           if (intersects.length > 0) {
             const hit = intersects[0];
@@ -539,6 +480,7 @@ export const ThreeViewer: React.FC<ThreeViewerProps> = ({ ifcFileUrl, onSelect,
       highlightMesh(null);
       onSelectRef.current(null);
       propertyRelsRef.current.clear();
+      materialRelsRef.current.clear();
 
       if (mockGroupRef.current) {
         scene.remove(mockGroupRef.current);
@@ -577,29 +519,10 @@ export const ThreeViewer: React.FC<ThreeViewerProps> = ({ ifcFileUrl, onSelect,
         const modelID = ifcApi.OpenModel(uint8Array);
         modelIDRef.current = modelID;
         
-        // Index all IfcRelDefinesByProperties for faster property lookup
+        // Index IfcRelDefinesByProperties and IfcRelAssociatesMaterial for faster property lookup
         setLoadingMessage("Indexation des propriétés...");
-        try {
-          const relDefines = ifcApi.GetLineIDsWithType(modelID, IFCRELDEFINESBYPROPERTIES);
-          for (let i = 0; i < relDefines.size(); i++) {
-            const relID = relDefines.get(i);
-            try {
-              const rel = ifcApi.GetLine(modelID, relID);
-              if (rel?.RelatedObjects && Array.isArray(rel.RelatedObjects)) {
-                for (const objRef of rel.RelatedObjects) {
-                  const objID = typeof objRef === 'object' ? objRef.value : objRef;
-                  if (objID) {
-                    const existing = propertyRelsRef.current.get(objID) || [];
-                    existing.push(relID);
-                    propertyRelsRef.current.set(objID, existing);
-                  }
-                }
-              }
-            } catch (e) {}
-          }
-        } catch (e) {
-          console.warn('Could not index properties:', e);
-        }
+        indexRelations(ifcApi, modelID, IFCRELDEFINESBYPROPERTIES, propertyRelsRef.current);
+        indexRelations(ifcApi, modelID, IFCRELASSOCIATESMATERIAL, materialRelsRef.current);
         
         const ifcGroup = new THREE.Group();
         ifcGroup.name = "IFCModel";
@@ -660,8 +583,10 @@ export const ThreeViewer: React.FC<ThreeViewerProps> = ({ ifcFileUrl, onSelect,
         scene.add(ifcGroup);
         modelRef.current = ifcGroup;
         
-        // Make IFC API available for audit
-        setIfcApiForAudit(ifcApi, modelID);
+        setLoadingMessage("Lecture de la structure spatiale...");
+        const spatialTree = buildSpatialTree(ifcApi, modelID);
+
+        onModelLoadedRef.current?.({ schema: ifcApi.GetModelSchema(modelID) || 'IFC', spatialTree });
         
         setIsLoading(false);
         const psetCount = propertyRelsRef.current.size;
@@ -690,6 +615,80 @@ export const ThreeViewer: React.FC<ThreeViewerProps> = ({ ifcFileUrl, onSelect,
     loadIFC();
   }, [ifcFileUrl, addMockData, highlightMesh]);
 
+  // Same selection as a click on the element, then framing on all of its meshes
+  useImperativeHandle(ref, () => ({
+    selectElement: async (expressID: number, frameIDs?: number[]) => {
+      const frameSet = new Set(frameIDs || [expressID]);
+      const meshes: THREE.Mesh[] = [];
+      const framed: THREE.Mesh[] = [];
+      modelRef.current?.traverse(object => {
+        if (!(object instanceof THREE.Mesh)) return;
+        if (object.userData.expressID === expressID) meshes.push(object);
+        if (frameSet.has(object.userData.expressID)) framed.push(object);
+      });
+
+      highlightMesh(meshes[0] || null);
+      frameObjects(framed);
+      onSelectRef.current(await getElementProperties(expressID));
+      if (framed.length === 0) setNotificationRef.current(`Élément #${expressID} sans géométrie dans la vue 3D`);
+    }
+  }), [highlightMesh, frameObjects, getElementProperties]);
+
+  // Visibility from the spatial tree, a newly loaded model comes with an empty set
+  useEffect(() => {
+    modelRef.current?.traverse(object => {
+      if (object instanceof THREE.Mesh) object.visible = !hiddenElements?.has(object.userData.expressID);
+    });
+  }, [hiddenElements]);
+
+  // Colour by compliance: swaps every model material, the cleanup puts the original materials back.
+  // The selected mesh keeps its highlight, only the material it returns to on deselection changes.
+  useEffect(() => {
+    const model = modelRef.current;
+    if (!elementStatuses || !model) return;
+
+    const statusMaterial = (status: ComplianceStatus) =>
+      new THREE.MeshLambertMaterial({ color: COMPLIANCE_COLORS[status], side: THREE.DoubleSide });
+    const statusMaterials: Record<ComplianceStatus, THREE.Material> = {
+      FAIL: statusMaterial('FAIL'),
+      WARNING: statusMaterial('WARNING'),
+      PASS: statusMaterial('PASS')
+    };
+    const ghostMaterial = new THREE.MeshLambertMaterial({
+      color: 0x94a3b8,
+      transparent: true,
+      opacity: GHOST_OPACITY,
+      depthWrite: false,
+      side: THREE.DoubleSide
+    });
+
+    const setMaterial = (mesh: THREE.Mesh, material: THREE.Material) => {
+      if (mesh === selectedMeshRef.current) originalMaterialRef.current = material;
+      else mesh.material = material;
+    };
+
+    const originals = new Map<THREE.Mesh, THREE.Material>();
+    model.traverse(object => {
+      if (!(object instanceof THREE.Mesh)) return;
+      originals.set(object, object === selectedMeshRef.current && originalMaterialRef.current ? originalMaterialRef.current : object.material as THREE.Material);
+      const status = elementStatuses.get(object.userData.expressID);
+      setMaterial(object, status ? statusMaterials[status] : ghostMaterial);
+    });
+
+    return () => {
+      originals.forEach((material, mesh) => setMaterial(mesh, material));
+      Object.values(statusMaterials).forEach(material => material.dispose());
+      ghostMaterial.dispose();
+    };
+  }, [elementStatuses]);
+
+  const statusCounts = elementStatuses
+    ? (Object.keys(COMPLIANCE_COLORS) as ComplianceStatus[]).map(status => ({
+      status,
+      count: [...elementStatuses.values()].filter(s => s === status).length
+    }))
+    : [];
+
   return (
     <div ref={mountRef} className="w-full h-full cursor-crosshair relative outline-none bg-slate-200">
       {isLoading && (
@@ -700,6 +699,21 @@ export const ThreeViewer: React.FC<ThreeViewerProps> = ({ ifcFileUrl, onSelect,
           </div>
         </div>
       )}
+      {elementStatuses && (
+        <div className="absolute bottom-4 left-4 bg-slate-800/90 backdrop-blur border border-slate-600 rounded-lg px-3 py-2 text-xs text-slate-200 space-y-1 z-10">
+          {statusCounts.map(({ status, count }) => (
+            <div key={status} className="flex items-center gap-2">
+              <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: `#${COMPLIANCE_COLORS[status].toString(16).padStart(6, '0')}` }} />
+              <span className="flex-1">{COMPLIANCE_LABELS[status]}</span>
+              <span className="font-mono text-slate-400">{count}</span>
+            </div>
+          ))}
+          <div className="flex items-center gap-2">
+            <span className="w-3 h-3 rounded-sm border border-slate-400 bg-slate-400/20" />
+            <span className="text-slate-400">Non testé</span>
+          </div>
+        </div>
+      )}
       {error && (
         <div className="absolute top-4 left-4 right-4 bg-red-600 text-white px-4 py-3 rounded-lg z-20">
           <p className="font-bold">Erreur</p>
@@ -709,4 +723,6 @@ export const ThreeViewer: React.FC<ThreeViewerProps> = ({ ifcFileUrl, onSelect,
       )}
     </div>
   );
-};
+});
+
+ThreeViewer.displayName = 'ThreeViewer';
@@ -5,13 +5,19 @@ import {
   IDSRequirement, 
   IDSAnyFacet, 
   IDSValue,
+  IDSRestriction,
   IDSEntityFacet,
   IDSPropertyFacet,
   IDSAttributeFacet,
   IDSClassificationFacet,
   IDSMaterialFacet,
-  getValueDescription
+  IDSPartOfFacet,
+  IDSCardinality,
+  getValueDescription,
+  specificationTargetsSchema
 } from './IDSParser';
+import { getMaterialEntries, getMaterialNames } from './IFCMaterials';
+import { getObjectPropertySetIds, readPropertySet, IFCPropertyEntry, IFCPropertyRawValue, WEBIFC_INTEGER } from './IFCProperties';
 
 export interface AuditResult {
   status: 'PASS' | 'FAIL' | 'WARNING' | 'NOT_APPLICABLE';
@@ -22,6 +28,40 @@ export interface AuditResult {
   requirementDescription: string;
   message: string;
   details?: string;
+  source?: string; // IDS file of the specification, when several files are audited together
+  property?: { propertySet: string, name: string }; // Property checked by a property requirement with literal names
+}
+
+// IDS outcome of one specification: its applicable elements must pass, and their number must satisfy the cardinality
+export interface SpecificationResult {
+  name: string;
+  description?: string;
+  cardinality: IDSCardinality;
+  applicableElements: number;
+  failedElements: number; // Applicable elements with at least one failed requirement
+  cardinalityStatus: 'PASS' | 'FAIL' | 'NOT_APPLICABLE';
+  status: 'PASS' | 'FAIL' | 'NOT_APPLICABLE'; // NOT_APPLICABLE: the specification targets another IFC schema
+  message: string;
+  source?: string;
+}
+
+// Explain mode: one facet of a specification evaluated on a chosen element
+export interface FacetExplanation {
+  description: string;
+  matched: boolean;
+  found?: string;
+  details?: string;
+}
+
+export interface ElementExplanation {
+  elementId: number;
+  elementName: string;
+  elementType: string;
+  specificationName: string;
+  applicable: boolean;
+  message: string;
+  applicability: FacetExplanation[];
+  requirements: AuditResult[]; // Evaluated even when the element is not applicable, to show what would happen
 }
 
 export interface AuditSummary {
@@ -33,51 +73,136 @@ export interface AuditSummary {
   warning: number;
   notApplicable: number;
   score: number; // Percentage of pass/(pass+fail)
+  specifications: SpecificationResult[];
+  sources: SourceSummary[]; // One entry per IDS file of the set
+  cancelled?: boolean; // The audit was stopped early, results are partial
   results: AuditResult[];
 }
 
-// IFC Type codes
-const IFC_TYPES: { [key: string]: number } = {
-  'IFCWALL': 3512223829,
-  'IFCWALLSTANDARDCASE': 3512223829,
-  'IFCSLAB': 1529196076,
-  'IFCBEAM': 753842376,
-  'IFCCOLUMN': 843113511,
-  'IFCDOOR': 395920057,
-  'IFCWINDOW': 3304561284,
-  'IFCROOF': 2016517767,
-  'IFCSTAIR': 331165859,
-  'IFCRAILING': 2262370178,
-  'IFCFURNISHINGELEMENT': 263784265,
-  'IFCBUILDINGELEMENTPROXY': 1095909175,
-  'IFCSPACE': 3856911033,
-  'IFCSITE': 4097777520,
-  'IFCBUILDING': 4031249490,
-  'IFCBUILDINGSTOREY': 3124254112,
-  'IFCPROJECT': 103090709,
-  'IFCCOVERING': 1973544240,
-  'IFCPLATE': 3171933400,
-  'IFCMEMBER': 1073191201,
-  'IFCCURTAINWALL': 844405976,
-  'IFCFOOTING': 900683007,
-  'IFCPILE': 1687234759,
-  'IFCRAMP': 3024970846,
-  'IFCSHADINGDEVICE': 1329646415,
-  'IFCCHIMNEY': 3296154744,
-  'IFCFLOWSEGMENT': 987401354,
-  'IFCFLOWTERMINAL': 2058353004,
-  'IFCFLOWCONTROLLER': 2058353004,
-  'IFCFLOWFITTING': 4278956645,
-  'IFCDISTRIBUTIONELEMENT': 1945004755,
-  'IFCOPENINGELEMENT': 3588315303,
+// One IDS file of an audited set
+export interface IDSSource {
+  name: string;
+  ids: IDSFile;
+}
+
+export interface SourceSummary {
+  source: string;
+  pass: number;
+  fail: number;
+  warning: number;
+  score: number;
+  specifications: number; // Specifications audited, i.e. not NOT_APPLICABLE
+  passedSpecifications: number;
+}
+
+// Elements selected by one applicability facet, alone and together with the facets before it
+export interface FacetCoverage {
+  description: string;
+  count: number;
+  cumulative: number;
+  hint?: string; // Why an entity facet selects nothing: unknown entity or none in the model
+}
+
+export interface SpecificationCoverage {
+  name: string;
+  source: string;
+  cardinality: IDSCardinality;
+  targetsSchema: boolean; // false: the specification is not applicable to the model schema
+  applicableElements: number;
+  facets: FacetCoverage[];
+}
+
+// Entities and property sets found in the model, offered as choices by the IDS editor
+export interface ModelCatalog {
+  entities: { name: string, count: number }[];
+  propertySets: { name: string, properties: { name: string, dataType: string | null }[] }[];
+}
+
+export interface AuditRunOptions {
+  // Receives each batch of new results while the audit runs
+  onResults?: (results: AuditResult[]) => void;
+  // Checked between elements; returning true stops the audit with a partial summary
+  isCancelled?: () => boolean;
+}
+
+// How long the audit runs before yielding to the event loop (progress, partial results, cancellation)
+const YIELD_INTERVAL_MS = 100;
+
+// Relationships followed by partOf facets, from the child side to the parent side
+const PART_OF_RELATIONS: { [relation: string]: { parent: string, children: string } } = {
+  'IFCRELAGGREGATES': { parent: 'RelatingObject', children: 'RelatedObjects' },
+  'IFCRELCONTAINEDINSPATIALSTRUCTURE': { parent: 'RelatingStructure', children: 'RelatedElements' },
+  'IFCRELNESTS': { parent: 'RelatingObject', children: 'RelatedObjects' },
+  'IFCRELASSIGNSTOGROUP': { parent: 'RelatingGroup', children: 'RelatedObjects' },
+  'IFCRELVOIDSELEMENT': { parent: 'RelatingBuildingElement', children: 'RelatedOpeningElement' },
+  'IFCRELFILLSELEMENT': { parent: 'RelatingOpeningElement', children: 'RelatedBuildingElement' },
 };
 
+const CARDINALITY_LABELS: { [cardinality in IDSCardinality]: string } = {
+  required: 'obligatoire',
+  optional: 'optionnelle',
+  prohibited: 'interdite',
+};
+
+// Outcome of one requirement facet on one element, before its cardinality is applied
+interface FacetEvaluation {
+  present: boolean; // The facet subject (property, attribute, material...) exists on the element
+  matches: boolean; // The subject exists and satisfies every constraint of the facet
+  label: string;
+  found?: string;
+  details?: string;
+}
+
+// How an IFC value is compared with IDS literals
+type ValueKind = 'boolean' | 'logical' | 'integer' | 'real' | 'string';
+
+// An IFC value together with the measure type it was stored with (IFCLABEL, IFCREAL, IFCLENGTHMEASURE...)
+interface TypedValue {
+  value: any;
+  dataType: string | null;
+  kind: ValueKind;
+}
+
+// A property, classification or material value with the object carrying it: the element itself or its type object
+interface PropertyValue extends TypedValue {
+  sourceId: number;
+  values?: IFCPropertyRawValue[]; // IfcPropertyEnumeratedValue and IfcPropertyListValue, matched when any of them matches
+}
+
+interface ClassificationValue {
+  system: string;
+  path: string[]; // Identification of the reference, then of each parent reference up to the system
+  sourceId: number;
+}
+
+interface MaterialValue {
+  name: string;
+  sourceId: number;
+}
+
+// IDS 1.0 tolerance for real numbers
+const REAL_TOLERANCE = 1e-6;
+
+interface PartOfLink {
+  parentId: number;
+  relation: string;
+}
+
 export class IDSAuditEngine {
   private ifcApi: any;
   private modelID: number;
   private elementCache: Map<number, any> = new Map();
-  private propertyCache: Map<number, Map<string, Map<string, any>>> = new Map();
+  private propertyCache: Map<number, Map<string, Map<string, PropertyValue>>> = new Map();
+  private relationIndexes: Map<string, Map<number, number[]>> = new Map();
   private typeNameCache: Map<number, string> = new Map();
+  private schemaTypes: Map<string, number> | null = null;
+  private objectIds: number[] | null = null;
+  private parentIndex: Map<number, PartOfLink[]> | null = null;
+  private typeIndex: Map<number, number> | null = null;
+  private regexCache: Map<string, RegExp | null> = new Map();
+  // Material definition -> every name/category it exposes; layer sets are usually shared by many elements
+  private materialNameCache: Map<number, string[]> = new Map();
+  private classificationCache: Map<number, { system: string, path: string[] }> = new Map();
 
   constructor(ifcApi: any, modelID: number) {
     this.ifcApi = ifcApi;
@@ -85,33 +210,111 @@ export class IDSAuditEngine {
   }
 
   // Main audit function
-  async runAudit(idsFile: IDSFile, onProgress?: (message: string, percent: number) => void): Promise<AuditSummary> {
+  async runAudit(idsFile: IDSFile, onProgress?: (message: string, percent: number) => void, options: AuditRunOptions = {}): Promise<AuditSummary> {
+    return this.runAuditSet([{ name: idsFile.title, ids: idsFile }], onProgress, options);
+  }
+
+  // Audits the specifications of several IDS files in one pass, every result tagged with its file
+  async runAuditSet(sources: IDSSource[], onProgress?: (message: string, percent: number) => void, options: AuditRunOptions = {}): Promise<AuditSummary> {
     const results: AuditResult[] = [];
+    const specifications: SpecificationResult[] = [];
     let testedElements = new Set<number>();
     let totalRequirements = 0;
+    let cancelled = false;
+
+    // Results not yet handed to onResults
+    let pendingFrom = 0;
+    let lastYield = Date.now();
+    const yieldIfDue = async (message: string, percent: number) => {
+      if (Date.now() - lastYield < YIELD_INTERVAL_MS) return;
+      onProgress?.(message, percent);
+      if (options.onResults && pendingFrom < results.length) {
+        options.onResults(results.slice(pendingFrom));
+        pendingFrom = results.length;
+      }
+      await new Promise(resolve => setTimeout(resolve, 0));
+      lastYield = Date.now();
+      cancelled = options.isCancelled?.() ?? false;
+    };
 
-    const specs = idsFile.specifications;
+    const entries = sources.flatMap(source => source.ids.specifications.map(spec => ({ spec, source: source.name })));
     
-    for (let specIndex = 0; specIndex < specs.length; specIndex++) {
-      const spec = specs[specIndex];
-      const progress = ((specIndex + 1) / specs.length) * 100;
-      onProgress?.(`Vérification: ${spec.name}`, progress);
+    for (let specIndex = 0; specIndex < entries.length && !cancelled; specIndex++) {
+      const { spec, source } = entries[specIndex];
+      const addResult = (result: AuditResult) => results.push({ ...result, source });
+      const specStart = (specIndex / entries.length) * 100;
+      onProgress?.(`Vérification: ${spec.name}`, specStart);
+
+      // Specifications written for another IFC schema would only produce misleading failures
+      if (!specificationTargetsSchema(spec, this.getSchemaName())) {
+        const message = this.getSchemaMismatchMessage(spec);
+        addResult(this.createSpecificationResult(spec, 'NOT_APPLICABLE', message));
+        specifications.push({
+          name: spec.name,
+          description: spec.description,
+          cardinality: spec.cardinality,
+          applicableElements: 0,
+          failedElements: 0,
+          cardinalityStatus: 'NOT_APPLICABLE',
+          status: 'NOT_APPLICABLE',
+          message,
+          source
+        });
+        continue;
+      }
+
+      // Report entity names the model schema doesn't know instead of silently matching nothing
+      for (const entityName of this.getUnknownEntities(spec)) {
+        addResult({
+          status: 'WARNING',
+          elementId: 0,
+          elementName: entityName,
+          elementType: this.getSchemaName(),
+          specificationName: spec.name,
+          requirementDescription: `Entité: ${entityName}`,
+          message: `Entité IFC inconnue dans le schéma ${this.getSchemaName()}: "${entityName}"`
+        });
+      }
 
       // Find applicable elements
       const applicableElements = await this.findApplicableElements(spec.applicability);
+      const failedElements = new Set<number>();
+
+      if (spec.cardinality === 'required' && applicableElements.length === 0) {
+        addResult(this.createSpecificationResult(spec, 'FAIL', 'Aucun élément applicable (spécification obligatoire)'));
+      }
       
-      for (const elementId of applicableElements) {
+      for (let elementIndex = 0; elementIndex < applicableElements.length; elementIndex++) {
+        const elementId = applicableElements[elementIndex];
         testedElements.add(elementId);
         
-        // Check each requirement
-        for (const req of spec.requirements) {
-          totalRequirements++;
-          const result = await this.checkRequirement(elementId, req, spec.name);
-          results.push(result);
+        if (spec.cardinality === 'prohibited') {
+          // Requirements don't apply: matching the applicability is already the failure
+          addResult({ ...this.createSpecificationResult(spec, 'FAIL', 'Élément interdit par la spécification (cardinalité interdite)'), ...this.describeElement(elementId) });
+          failedElements.add(elementId);
+        } else {
+          // Check each requirement
+          for (const req of spec.requirements) {
+            totalRequirements++;
+            const result = await this.checkRequirement(elementId, req, spec.name);
+            if (result.status === 'FAIL') failedElements.add(elementId);
+            addResult(result);
+          }
         }
+
+        const percent = specStart + ((elementIndex + 1) / applicableElements.length) * (100 / entries.length);
+        await yieldIfDue(`Vérification: ${spec.name} (${elementIndex + 1}/${applicableElements.length})`, percent);
+        if (cancelled) break;
       }
+
+      specifications.push({ ...this.summarizeSpecification(spec, applicableElements.length, failedElements.size), source });
     }
 
+    if (options.onResults && pendingFrom < results.length) {
+      options.onResults(results.slice(pendingFrom));
+    }
+    if (!cancelled) onProgress?.('Audit terminé', 100);
+
     // Calculate summary
     const pass = results.filter(r => r.status === 'PASS').length;
     const fail = results.filter(r => r.status === 'FAIL').length;
@@ -120,6 +323,22 @@ export class IDSAuditEngine {
     
     const score = pass + fail > 0 ? Math.round((pass / (pass + fail)) * 100) : 100;
 
+    const sourceSummaries = sources.map(({ name }) => {
+      const sourceResults = results.filter(r => r.source === name);
+      const sourcePass = sourceResults.filter(r => r.status === 'PASS').length;
+      const sourceFail = sourceResults.filter(r => r.status === 'FAIL').length;
+      const audited = specifications.filter(spec => spec.source === name && spec.status !== 'NOT_APPLICABLE');
+      return {
+        source: name,
+        pass: sourcePass,
+        fail: sourceFail,
+        warning: sourceResults.filter(r => r.status === 'WARNING').length,
+        score: sourcePass + sourceFail > 0 ? Math.round((sourcePass / (sourcePass + sourceFail)) * 100) : 100,
+        specifications: audited.length,
+        passedSpecifications: audited.filter(spec => spec.status === 'PASS').length
+      };
+    });
+
     return {
       totalElements: await this.getTotalElementCount(),
       testedElements: testedElements.size,
@@ -129,20 +348,144 @@ export class IDSAuditEngine {
       warning,
       notApplicable,
       score,
+      specifications,
+      sources: sourceSummaries,
+      cancelled,
       results
     };
   }
 
+  // Why an element is or isn't audited by a specification, and how each requirement evaluates on it
+  async explainElement(spec: IDSSpecification, elementId: number): Promise<ElementExplanation> {
+    const applicability: FacetExplanation[] = [];
+    for (const facet of spec.applicability) {
+      const evaluation = await this.evaluateFacet(elementId, facet);
+      applicability.push({
+        description: this.getFacetDescription(facet),
+        matched: evaluation?.matches ?? false,
+        found: evaluation?.found ?? (evaluation?.present === false ? 'absent' : undefined),
+        details: evaluation?.details
+      });
+    }
+
+    const applicable = specificationTargetsSchema(spec, this.getSchemaName()) &&
+      applicability.length > 0 && applicability.every(facet => facet.matched);
+    const requirements: AuditResult[] = [];
+    for (const req of spec.requirements) {
+      requirements.push(await this.checkRequirement(elementId, req, spec.name));
+    }
+
+    const mismatch = applicability.find(facet => !facet.matched);
+    let message: string;
+    if (!specificationTargetsSchema(spec, this.getSchemaName())) {
+      message = `Non audité: ${this.getSchemaMismatchMessage(spec)}`;
+    } else if (!applicable) {
+      message = mismatch
+        ? `Non audité: ${mismatch.description} ne correspond pas${mismatch.found ? ` (trouvé: ${mismatch.found})` : ''}`
+        : 'Non audité: la spécification n\'a pas d\'applicabilité';
+    } else if (spec.cardinality === 'prohibited') {
+      message = 'Audité: l\'élément correspond à une spécification interdite';
+    } else {
+      const failed = requirements.filter(r => r.status === 'FAIL').length;
+      message = failed > 0 ? `Audité: ${failed} exigence(s) non conforme(s)` : 'Audité: toutes les exigences sont respectées';
+    }
+
+    return {
+      ...this.describeElement(elementId),
+      specificationName: spec.name,
+      applicable,
+      message,
+      applicability,
+      requirements
+    };
+  }
+
+  // Number of elements an applicability selects, the live preview of the IDS editor
+  async countApplicableElements(applicability: IDSAnyFacet[]): Promise<number> {
+    if (applicability.length === 0) return 0;
+    return (await this.findApplicableElements(applicability)).length;
+  }
+
+  // Coverage report: how many elements each specification, and each of its applicability facets, selects
+  async getCoverage(sources: IDSSource[]): Promise<SpecificationCoverage[]> {
+    const coverage: SpecificationCoverage[] = [];
+    const schema = this.getSchemaName();
+
+    for (const source of sources) {
+      for (const spec of source.ids.specifications) {
+        const facets: FacetCoverage[] = [];
+        let selected: Set<number> | null = null;
+
+        for (const facet of spec.applicability) {
+          const matching = await this.findMatchingElements(facet);
+          const matchingSet = new Set(matching);
+          selected = selected === null ? matchingSet : new Set([...selected].filter(id => matchingSet.has(id)));
+          facets.push({
+            description: this.getFacetDescription(facet),
+            count: matching.length,
+            cumulative: selected.size,
+            hint: matching.length === 0 && facet.type === 'entity' ? this.getEntityCoverageHint(facet as IDSEntityFacet) : undefined
+          });
+        }
+
+        coverage.push({
+          name: spec.name,
+          source: source.name,
+          cardinality: spec.cardinality,
+          targetsSchema: specificationTargetsSchema(spec, schema),
+          applicableElements: selected ? selected.size : 0,
+          facets
+        });
+      }
+    }
+
+    return coverage;
+  }
+
+  private getEntityCoverageHint(facet: IDSEntityFacet): string {
+    const { codes, unknown } = this.resolveEntityTypes(facet.name);
+    if (unknown.length > 0 && codes.length === 0) {
+      return `Entité inconnue du schéma ${this.getSchemaName()}: ${unknown.join(', ')}`;
+    }
+    return facet.predefinedType ? 'Aucun élément de ce type et PredefinedType dans le modèle' : 'Aucun élément de ce type dans le modèle';
+  }
+
+  async getModelCatalog(): Promise<ModelCatalog> {
+    const entities = new Map<string, number>();
+    const propertySets = new Map<string, Map<string, string | null>>();
+
+    for (const id of this.getAllObjectIds()) {
+      const typeName = this.getTypeName(id);
+      entities.set(typeName, (entities.get(typeName) || 0) + 1);
+
+      for (const [psetName, properties] of this.getPropertySets(id)) {
+        const catalogProperties = propertySets.get(psetName) || new Map<string, string | null>();
+        for (const [propName, value] of properties) {
+          if (!catalogProperties.has(propName)) catalogProperties.set(propName, value.dataType);
+        }
+        propertySets.set(psetName, catalogProperties);
+      }
+    }
+
+    return {
+      entities: [...entities].map(([name, count]) => ({ name, count })).sort((a, b) => a.name.localeCompare(b.name)),
+      propertySets: [...propertySets]
+        .map(([name, properties]) => ({
+          name,
+          properties: [...properties].map(([propName, dataType]) => ({ name: propName, dataType })).sort((a, b) => a.name.localeCompare(b.name))
+        }))
+        .sort((a, b) => a.name.localeCompare(b.name))
+    };
+  }
+
   private async getTotalElementCount(): Promise<number> {
-    let count = 0;
-    for (const typeName of Object.keys(IFC_TYPES)) {
-      try {
-        const typeCode = IFC_TYPES[typeName];
-        const ids = this.ifcApi.GetLineIDsWithType(this.modelID, typeCode);
-        count += ids.size();
-      } catch (e) {}
+    const elementType = this.getSchemaTypes().get('IFCELEMENT');
+    if (elementType === undefined) return 0;
+    try {
+      return this.ifcApi.GetLineIDsWithType(this.modelID, elementType, true).size();
+    } catch (e) {
+      return 0;
     }
-    return count;
   }
 
   private async findApplicableElements(applicability: IDSAnyFacet[]): Promise<number[]> {
@@ -155,7 +498,8 @@ export class IDSAuditEngine {
         elementIds = new Set(matchingIds);
       } else {
         // Intersection
-        elementIds = new Set([...elementIds].filter(id => matchingIds.includes(id)));
+        const matching = new Set(matchingIds);
+        elementIds = new Set([...elementIds].filter(id => matching.has(id)));
       }
     }
 
@@ -174,30 +518,27 @@ export class IDSAuditEngine {
         return this.findByProperty(facet as IDSPropertyFacet);
       case 'material':
         return this.findByMaterial(facet as IDSMaterialFacet);
+      case 'partOf':
+        return this.findByPartOf(facet as IDSPartOfFacet);
       default:
         return [];
     }
   }
 
   private async findByEntity(facet: IDSEntityFacet): Promise<number[]> {
-    const entityName = this.getSimpleValue(facet.name)?.toUpperCase();
-    if (!entityName) return [];
-
     const results: number[] = [];
+    const { codes } = this.resolveEntityTypes(facet.name);
     
-    // Handle wildcards and patterns
-    const matchingTypes = this.findMatchingTypes(entityName, facet.name);
-    
-    for (const typeCode of matchingTypes) {
+    for (const typeCode of codes) {
       try {
+        // Only the exact classes resolved from the IDS: subtypes must be requested explicitly
         const ids = this.ifcApi.GetLineIDsWithType(this.modelID, typeCode);
         for (let i = 0; i < ids.size(); i++) {
           const id = ids.get(i);
           
           // Check predefinedType if specified
           if (facet.predefinedType) {
-            const element = this.getElement(id);
-            const predefinedType = this.getValue(element?.PredefinedType);
+            const predefinedType = this.getPredefinedType(id);
             if (!this.matchesValue(predefinedType, facet.predefinedType)) {
               continue;
             }
@@ -205,103 +546,103 @@ export class IDSAuditEngine {
           
           results.push(id);
         }
-      } catch (e) {}
+      } catch (e) {
+        console.warn('Entity search error:', e);
+      }
     }
 
     return results;
   }
 
-  private findMatchingTypes(entityName: string, value: IDSValue): number[] {
+  // All entity names of the model schema (IFC2X3, IFC4 or IFC4X3), mapped to their web-ifc type codes
+  private getSchemaTypes(): Map<string, number> {
+    if (this.schemaTypes) return this.schemaTypes;
+
+    this.schemaTypes = new Map();
+    try {
+      const typeCodes: number[] = this.ifcApi.GetIfcEntityList(this.modelID);
+      for (const code of typeCodes) {
+        const name = this.ifcApi.GetNameFromTypeCode(code);
+        if (name) this.schemaTypes.set(String(name).toUpperCase(), code);
+      }
+    } catch (e) {
+      console.warn('Could not read IFC schema:', e);
+    }
+    return this.schemaTypes;
+  }
+
+  // Resolve an IDS entity name value against the schema. Names that match no class are returned in `unknown`.
+  private resolveEntityTypes(value: IDSValue): { codes: number[], unknown: string[] } {
+    const schemaTypes = this.getSchemaTypes();
     const codes: number[] = [];
-    
-    if (value.type === 'simple') {
-      // Direct match
-      const key = entityName.startsWith('IFC') ? entityName : `IFC${entityName}`;
-      if (IFC_TYPES[key]) {
-        codes.push(IFC_TYPES[key]);
-      }
-      // Also check without IFC prefix
-      const keyNoPrefix = entityName.replace(/^IFC/, '');
-      for (const [name, code] of Object.entries(IFC_TYPES)) {
-        if (name.includes(keyNoPrefix)) {
-          codes.push(code);
-        }
+    const unknown: string[] = [];
+
+    const normalize = (name: string) => {
+      const upper = name.trim().toUpperCase();
+      return upper.startsWith('IFC') ? upper : `IFC${upper}`;
+    };
+
+    const names = value.type === 'simple' ? [value.value] : value.enumeration;
+    if (names) {
+      for (const name of names) {
+        const code = schemaTypes.get(normalize(name));
+        if (code !== undefined) codes.push(code);
+        else unknown.push(name);
       }
-    } else if (value.type === 'restriction') {
-      // Pattern or enumeration matching
-      if (value.enumeration) {
-        for (const enumVal of value.enumeration) {
-          const key = enumVal.toUpperCase();
-          const fullKey = key.startsWith('IFC') ? key : `IFC${key}`;
-          if (IFC_TYPES[fullKey]) {
-            codes.push(IFC_TYPES[fullKey]);
-          }
-        }
-      } else if (value.pattern) {
-        const regex = new RegExp(value.pattern, 'i');
-        for (const [name, code] of Object.entries(IFC_TYPES)) {
-          if (regex.test(name)) {
-            codes.push(code);
-          }
+    } else if (value.type === 'restriction' && value.pattern) {
+      // XSD patterns are case-sensitive, they are matched against the uppercase schema names
+      const regex = this.compilePattern(value.pattern);
+      if (regex) {
+        for (const [name, code] of schemaTypes) {
+          if (regex.test(name)) codes.push(code);
         }
       }
+      if (codes.length === 0) unknown.push(value.pattern.join(' | '));
     }
 
-    return [...new Set(codes)];
+    return { codes: [...new Set(codes)], unknown };
   }
 
-  private async findByClassification(facet: IDSClassificationFacet): Promise<number[]> {
-    // This requires traversing IfcRelAssociatesClassification
-    const results: number[] = [];
-    
+  // Every object definition of the model (elements, spatial structure, types, groups...)
+  private getAllObjectIds(): number[] {
+    if (this.objectIds) return this.objectIds;
+
+    this.objectIds = [];
+    const objectType = this.getSchemaTypes().get('IFCOBJECTDEFINITION');
+    if (objectType === undefined) return this.objectIds;
     try {
-      const IFCRELASSOCIATESCLASSIFICATION = 919958153;
-      const relIds = this.ifcApi.GetLineIDsWithType(this.modelID, IFCRELASSOCIATESCLASSIFICATION);
-      
-      for (let i = 0; i < relIds.size(); i++) {
-        const relId = relIds.get(i);
-        const rel = this.getElement(relId);
-        if (!rel) continue;
+      const ids = this.ifcApi.GetLineIDsWithType(this.modelID, objectType, true);
+      for (let i = 0; i < ids.size(); i++) {
+        this.objectIds.push(ids.get(i));
+      }
+    } catch (e) {
+      console.warn('Could not list IFC objects:', e);
+    }
+    return this.objectIds;
+  }
 
-        // Check classification reference
-        const classRef = rel.RelatingClassification;
-        if (!classRef) continue;
-        
-        const classRefId = typeof classRef === 'object' ? classRef.value : classRef;
-        const classification = this.getElement(classRefId);
-        if (!classification) continue;
-
-        // Check system
-        if (facet.system) {
-          // Get the classification system
-          let systemName: string | null = null;
-          if (classification.ReferencedSource) {
-            const sourceId = typeof classification.ReferencedSource === 'object' ? 
-              classification.ReferencedSource.value : classification.ReferencedSource;
-            const source = this.getElement(sourceId);
-            systemName = this.getValue(source?.Name);
-          }
-          if (!this.matchesValue(systemName, facet.system)) continue;
-        }
+  // Entity names used by a specification's entity facets that don't exist in the model schema
+  private getUnknownEntities(spec: IDSSpecification): string[] {
+    const unknown: string[] = [];
+    const facets = [...spec.applicability, ...spec.requirements.map(r => r.facet)];
+    for (const facet of facets) {
+      if (facet.type === 'entity') {
+        unknown.push(...this.resolveEntityTypes((facet as IDSEntityFacet).name).unknown);
+      } else if (facet.type === 'partOf') {
+        unknown.push(...this.resolveEntityTypes((facet as IDSPartOfFacet).entity).unknown);
+      }
+    }
+    return [...new Set(unknown)];
+  }
 
-        // Check value
-        if (facet.value) {
-          const classValue = this.getValue(classification.Identification) || 
-                            this.getValue(classification.ItemReference) ||
-                            this.getValue(classification.Name);
-          if (!this.matchesValue(classValue, facet.value)) continue;
-        }
+  private async findByClassification(facet: IDSClassificationFacet): Promise<number[]> {
+    const results: number[] = [];
 
-        // Get related objects
-        if (rel.RelatedObjects && Array.isArray(rel.RelatedObjects)) {
-          for (const objRef of rel.RelatedObjects) {
-            const objId = typeof objRef === 'object' ? objRef.value : objRef;
-            if (objId) results.push(objId);
-          }
-        }
+    for (const id of this.getAssociatedObjects('IFCRELASSOCIATESCLASSIFICATION')) {
+      const classifications = await this.getClassifications(id);
+      if (classifications.some(cls => this.matchesClassification(cls, facet))) {
+        results.push(id);
       }
-    } catch (e) {
-      console.warn('Classification search error:', e);
     }
 
     return results;
@@ -313,22 +654,16 @@ export class IDSAuditEngine {
     const attrName = this.getSimpleValue(facet.name);
     if (!attrName) return [];
 
-    for (const typeCode of Object.values(IFC_TYPES)) {
-      try {
-        const ids = this.ifcApi.GetLineIDsWithType(this.modelID, typeCode);
-        for (let i = 0; i < ids.size(); i++) {
-          const id = ids.get(i);
-          const element = this.getElement(id);
-          if (!element) continue;
+    for (const id of this.getAllObjectIds()) {
+      const element = this.getElement(id);
+      if (!element) continue;
 
-          const attrValue = this.getValue(element[attrName]);
-          if (attrValue !== null && attrValue !== undefined) {
-            if (!facet.value || this.matchesValue(attrValue, facet.value)) {
-              results.push(id);
-            }
-          }
+      const attr = this.toTypedValue(element[attrName]);
+      if (attr !== null && attr.value !== '') {
+        if (!facet.value || this.matchesValue(attr.value, facet.value, attr.kind)) {
+          results.push(id);
         }
-      } catch (e) {}
+      }
     }
 
     return results;
@@ -336,24 +671,13 @@ export class IDSAuditEngine {
 
   private async findByProperty(facet: IDSPropertyFacet): Promise<number[]> {
     const results: number[] = [];
-    const psetName = this.getSimpleValue(facet.propertySet);
-    const propName = this.getSimpleValue(facet.baseName);
-    if (!psetName || !propName) return [];
+    if (!facet.propertySet || !facet.baseName) return [];
 
     // Check all elements
-    for (const typeCode of Object.values(IFC_TYPES)) {
-      try {
-        const ids = this.ifcApi.GetLineIDsWithType(this.modelID, typeCode);
-        for (let i = 0; i < ids.size(); i++) {
-          const id = ids.get(i);
-          const propValue = await this.getPropertyValue(id, psetName, propName);
-          if (propValue !== null && propValue !== undefined) {
-            if (!facet.value || this.matchesValue(propValue, facet.value)) {
-              results.push(id);
-            }
-          }
-        }
-      } catch (e) {}
+    for (const id of this.getAllObjectIds()) {
+      if (this.matchesProperties(this.getMatchingProperties(id, facet), facet)) {
+        results.push(id);
+      }
     }
 
     return results;
@@ -361,47 +685,202 @@ export class IDSAuditEngine {
 
   private async findByMaterial(facet: IDSMaterialFacet): Promise<number[]> {
     const results: number[] = [];
-    
-    try {
-      const IFCRELASSOCIATESMATERIAL = 2655215786;
-      const relIds = this.ifcApi.GetLineIDsWithType(this.modelID, IFCRELASSOCIATESMATERIAL);
-      
-      for (let i = 0; i < relIds.size(); i++) {
-        const relId = relIds.get(i);
-        const rel = this.getElement(relId);
-        if (!rel || !rel.RelatingMaterial) continue;
 
-        const matId = typeof rel.RelatingMaterial === 'object' ? 
-          rel.RelatingMaterial.value : rel.RelatingMaterial;
-        const material = this.getElement(matId);
-        
-        const matName = this.getValue(material?.Name);
-        
-        if (facet.value) {
-          if (!this.matchesValue(matName, facet.value)) continue;
+    for (const id of this.getAssociatedObjects('IFCRELASSOCIATESMATERIAL')) {
+      const materials = await this.getMaterials(id);
+      if (materials.length > 0 && (!facet.value || materials.some(mat => this.matchesValue(mat.name, facet.value!)))) {
+        results.push(id);
+      }
+    }
+
+    return results;
+  }
+
+  // Objects associated through a relationship directly or through their type object
+  private getAssociatedObjects(relationType: string): number[] {
+    const index = this.getRelationIndex(relationType);
+    const ids = new Set(index.keys());
+    for (const [objId, typeId] of this.getTypeIndex()) {
+      if (index.has(typeId)) ids.add(objId);
+    }
+    return [...ids];
+  }
+
+  // IDS predefined type: the occurrence value, ObjectType/ElementType when USERDEFINED, else inherited from the type object
+  private getPredefinedType(elementId: number): string | null {
+    const resolve = (obj: any, userDefinedAttr: string): string | null => {
+      const value = this.getValue(obj?.PredefinedType);
+      if (value === 'USERDEFINED') return this.getValue(obj?.[userDefinedAttr]) || value;
+      if (value === 'NOTDEFINED') return null;
+      return value ?? null;
+    };
+
+    const element = this.getElement(elementId);
+    const own = resolve(element, 'ObjectType');
+    if (own) return own;
+
+    const typeId = this.getTypeIndex().get(elementId);
+    return typeId !== undefined ? resolve(this.getElement(typeId), 'ElementType') : null;
+  }
+
+  // Occurrence -> type object index from IfcRelDefinesByType, built once per engine
+  private getTypeIndex(): Map<number, number> {
+    if (this.typeIndex) return this.typeIndex;
+
+    this.typeIndex = new Map();
+    for (const [objId, relIds] of this.getRelationIndex('IFCRELDEFINESBYTYPE')) {
+      const typeId = this.getRefId(this.getElement(relIds[0])?.RelatingType);
+      if (typeId) this.typeIndex.set(objId, typeId);
+    }
+
+    return this.typeIndex;
+  }
+
+  private async findByPartOf(facet: IDSPartOfFacet): Promise<number[]> {
+    const results: number[] = [];
+    const parentTypes = new Set(this.resolveEntityTypes(facet.entity).codes);
+    if (parentTypes.size === 0) return [];
+
+    for (const childId of this.getParentIndex().keys()) {
+      if (this.findPartOfParent(childId, parentTypes, facet.relation) !== null) {
+        results.push(childId);
+      }
+    }
+
+    return results;
+  }
+
+  // Child -> parents index over every partOf relationship, built once per engine
+  private getParentIndex(): Map<number, PartOfLink[]> {
+    if (this.parentIndex) return this.parentIndex;
+
+    this.parentIndex = new Map();
+    const schemaTypes = this.getSchemaTypes();
+
+    for (const [relation, attrs] of Object.entries(PART_OF_RELATIONS)) {
+      const relType = schemaTypes.get(relation);
+      if (relType === undefined) continue;
+
+      try {
+        const relIds = this.ifcApi.GetLineIDsWithType(this.modelID, relType, true);
+        for (let i = 0; i < relIds.size(); i++) {
+          const rel = this.getElement(relIds.get(i));
+          const parentId = this.getRefId(rel?.[attrs.parent]);
+          if (!parentId) continue;
+
+          const children = rel[attrs.children];
+          for (const childRef of Array.isArray(children) ? children : [children]) {
+            const childId = this.getRefId(childRef);
+            if (!childId) continue;
+            const links = this.parentIndex.get(childId) || [];
+            links.push({ parentId, relation });
+            this.parentIndex.set(childId, links);
+          }
         }
+      } catch (e) {
+        console.warn(`Could not index ${relation}:`, e);
+      }
+    }
+
+    return this.parentIndex;
+  }
 
-        if (rel.RelatedObjects && Array.isArray(rel.RelatedObjects)) {
-          for (const objRef of rel.RelatedObjects) {
-            const objId = typeof objRef === 'object' ? objRef.value : objRef;
-            if (objId) results.push(objId);
+  // Walk up the parents of an element and return the first one whose class is in `parentTypes`.
+  // With a relation, the first hop must use it; containment then continues up the aggregated
+  // spatial structure (space -> storey -> building), other relations only follow themselves.
+  private findPartOfParent(elementId: number, parentTypes: Set<number>, relation?: string): number | null {
+    const relations = relation ? relation.toUpperCase().split(/\s+/).filter(Boolean) : null;
+    const containment = relations?.includes('IFCRELCONTAINEDINSPATIALSTRUCTURE') ?? false;
+    const index = this.getParentIndex();
+    const visited = new Set<number>([elementId]);
+    let frontier = [elementId];
+    let firstHop = true;
+
+    while (frontier.length > 0) {
+      const next: number[] = [];
+      for (const id of frontier) {
+        for (const link of index.get(id) || []) {
+          if (relations) {
+            const allowed = relations.includes(link.relation) ||
+              (!firstHop && containment && link.relation === 'IFCRELAGGREGATES');
+            if (!allowed) continue;
           }
+          if (visited.has(link.parentId)) continue;
+          visited.add(link.parentId);
+
+          if (parentTypes.has(this.getElement(link.parentId)?.type)) return link.parentId;
+          next.push(link.parentId);
         }
       }
-    } catch (e) {}
+      frontier = next;
+      firstHop = false;
+    }
 
-    return results;
+    return null;
+  }
+
+  private getSchemaMismatchMessage(spec: IDSSpecification): string {
+    return `Spécification pour ${(spec.ifcVersion || []).join(', ')}, modèle en ${this.getSchemaName()}`;
+  }
+
+  private summarizeSpecification(spec: IDSSpecification, applicable: number, failed: number): SpecificationResult {
+    let cardinalityStatus: 'PASS' | 'FAIL' = 'PASS';
+    let message: string;
+
+    if (spec.cardinality === 'prohibited') {
+      cardinalityStatus = applicable > 0 ? 'FAIL' : 'PASS';
+      message = applicable > 0 ? `${applicable} élément(s) applicable(s) alors que la spécification est interdite` : 'Aucun élément applicable (interdit) ✓';
+    } else if (applicable === 0) {
+      cardinalityStatus = spec.cardinality === 'required' ? 'FAIL' : 'PASS';
+      message = spec.cardinality === 'required' ? 'Aucun élément applicable (spécification obligatoire)' : 'Aucun élément applicable (spécification optionnelle)';
+    } else {
+      message = failed > 0 ? `${failed}/${applicable} élément(s) non conforme(s)` : `${applicable} élément(s) conforme(s) ✓`;
+    }
+
+    return {
+      name: spec.name,
+      description: spec.description,
+      cardinality: spec.cardinality,
+      applicableElements: applicable,
+      failedElements: failed,
+      cardinalityStatus,
+      status: cardinalityStatus === 'FAIL' || failed > 0 ? 'FAIL' : 'PASS',
+      message
+    };
+  }
+
+  // Result row about the specification itself rather than one of its requirements
+  private createSpecificationResult(spec: IDSSpecification, status: AuditResult['status'], message: string): AuditResult {
+    return {
+      status,
+      elementId: 0,
+      elementName: spec.name,
+      elementType: 'Spécification',
+      specificationName: spec.name,
+      requirementDescription: `Spécification ${CARDINALITY_LABELS[spec.cardinality]}`,
+      message
+    };
+  }
+
+  private describeElement(elementId: number): Pick<AuditResult, 'elementId' | 'elementName' | 'elementType'> {
+    return {
+      elementId,
+      elementName: this.getValue(this.getElement(elementId)?.Name) || `Element #${elementId}`,
+      elementType: this.getTypeName(elementId)
+    };
   }
 
   private async checkRequirement(elementId: number, req: IDSRequirement, specName: string): Promise<AuditResult> {
-    const element = this.getElement(elementId);
-    const elementType = this.getTypeName(elementId);
-    const elementName = this.getValue(element?.Name) || `Element #${elementId}`;
+    const { elementName, elementType } = this.describeElement(elementId);
 
     const reqDescription = this.getRequirementDescription(req);
+    const property = this.getRequirementProperty(req);
     
     try {
-      const checkResult = await this.checkFacet(elementId, req.facet, req.minOccurs);
+      const evaluation = await this.evaluateFacet(elementId, req.facet);
+      const checkResult: {status: AuditResult['status'], message: string, details?: string} = evaluation
+        ? this.applyCardinality(evaluation, req.cardinality)
+        : { status: 'NOT_APPLICABLE', message: 'Type de vérification non supporté' };
       
       return {
         status: checkResult.status,
@@ -411,7 +890,8 @@ export class IDSAuditEngine {
         specificationName: specName,
         requirementDescription: reqDescription,
         message: checkResult.message,
-        details: checkResult.details
+        details: checkResult.details,
+        property
       };
     } catch (e) {
       return {
@@ -422,154 +902,179 @@ export class IDSAuditEngine {
         specificationName: specName,
         requirementDescription: reqDescription,
         message: `Erreur lors de la vérification: ${e}`,
+        property
       };
     }
   }
 
-  private async checkFacet(elementId: number, facet: IDSAnyFacet, minOccurs: number): Promise<{status: 'PASS' | 'FAIL' | 'WARNING' | 'NOT_APPLICABLE', message: string, details?: string}> {
+  private getRequirementProperty(req: IDSRequirement): AuditResult['property'] {
+    if (req.facet.type !== 'property') return undefined;
+    const facet = req.facet as IDSPropertyFacet;
+    const propertySet = this.getSimpleValue(facet.propertySet);
+    const name = this.getSimpleValue(facet.baseName);
+    return propertySet && name ? { propertySet, name } : undefined;
+  }
+
+  // required: the facet must match. optional: if its subject is present, it must match. prohibited: it must not match.
+  private applyCardinality(evaluation: FacetEvaluation, cardinality: IDSCardinality): {status: 'PASS' | 'FAIL', message: string, details?: string} {
+    const { present, matches, label, found, details } = evaluation;
+    const actual = found !== undefined ? `${label} = "${found}"` : label;
+
+    switch (cardinality) {
+      case 'prohibited':
+        if (matches) {
+          return { status: 'FAIL', message: `Interdit mais présent: ${actual} (cardinalité interdite)`, details };
+        }
+        return { status: 'PASS', message: present ? `${actual} ne correspond pas à l'interdiction ✓` : `${label} absent (interdit) ✓`, details };
+      case 'optional':
+        if (!present) {
+          return { status: 'PASS', message: `${label} absent (optionnel, autorisé)`, details };
+        }
+        if (matches) {
+          return { status: 'PASS', message: `${actual} ✓`, details };
+        }
+        return { status: 'FAIL', message: `Non conforme: ${actual} (cardinalité optionnelle)`, details };
+      default:
+        if (matches) {
+          return { status: 'PASS', message: `${actual} ✓`, details };
+        }
+        if (!present) {
+          return { status: 'FAIL', message: `Absent: ${label} (cardinalité obligatoire)`, details };
+        }
+        return { status: 'FAIL', message: `Non conforme: ${actual} (cardinalité obligatoire)`, details };
+    }
+  }
+
+  private async evaluateFacet(elementId: number, facet: IDSAnyFacet): Promise<FacetEvaluation | null> {
     switch (facet.type) {
+      case 'entity':
+        return this.evaluateEntityFacet(elementId, facet as IDSEntityFacet);
       case 'property':
-        return this.checkPropertyFacet(elementId, facet as IDSPropertyFacet, minOccurs);
+        return this.evaluatePropertyFacet(elementId, facet as IDSPropertyFacet);
       case 'attribute':
-        return this.checkAttributeFacet(elementId, facet as IDSAttributeFacet, minOccurs);
+        return this.evaluateAttributeFacet(elementId, facet as IDSAttributeFacet);
       case 'classification':
-        return this.checkClassificationFacet(elementId, facet as IDSClassificationFacet, minOccurs);
+        return this.evaluateClassificationFacet(elementId, facet as IDSClassificationFacet);
       case 'material':
-        return this.checkMaterialFacet(elementId, facet as IDSMaterialFacet, minOccurs);
+        return this.evaluateMaterialFacet(elementId, facet as IDSMaterialFacet);
+      case 'partOf':
+        return this.evaluatePartOfFacet(elementId, facet as IDSPartOfFacet);
       default:
-        return { status: 'NOT_APPLICABLE', message: 'Type de vérification non supporté' };
+        return null;
     }
   }
 
-  private async checkPropertyFacet(elementId: number, facet: IDSPropertyFacet, minOccurs: number): Promise<{status: 'PASS' | 'FAIL' | 'WARNING', message: string, details?: string}> {
-    const psetName = this.getSimpleValue(facet.propertySet) || '';
-    const propName = this.getSimpleValue(facet.baseName) || '';
-    
-    const propValue = await this.getPropertyValue(elementId, psetName, propName);
-    
-    if (propValue === null || propValue === undefined) {
-      if (minOccurs === 0) {
-        return { status: 'PASS', message: `Propriété optionnelle "${propName}" absente (autorisé)` };
-      }
-      return { 
-        status: 'FAIL', 
-        message: `Propriété "${propName}" manquante dans "${psetName}"` 
-      };
-    }
+  private async evaluateEntityFacet(elementId: number, facet: IDSEntityFacet): Promise<FacetEvaluation> {
+    const element = this.getElement(elementId);
+    const { codes } = this.resolveEntityTypes(facet.name);
+    const predefinedType = this.getPredefinedType(elementId);
 
-    if (facet.value) {
-      if (this.matchesValue(propValue, facet.value)) {
-        return { 
-          status: 'PASS', 
-          message: `Propriété "${propName}" = "${propValue}" ✓`,
-          details: `Valeur attendue: ${getValueDescription(facet.value)}`
-        };
-      } else {
-        return { 
-          status: 'FAIL', 
-          message: `Propriété "${propName}" = "${propValue}" (non conforme)`,
-          details: `Valeur attendue: ${getValueDescription(facet.value)}`
-        };
-      }
+    let matches = codes.includes(element?.type);
+    if (matches && facet.predefinedType) {
+      matches = this.matchesValue(predefinedType, facet.predefinedType);
     }
 
-    return { 
-      status: 'PASS', 
-      message: `Propriété "${propName}" présente = "${propValue}"` 
+    const expected = getValueDescription(facet.name) + (facet.predefinedType ? `.${getValueDescription(facet.predefinedType)}` : '');
+    return {
+      present: true,
+      matches,
+      label: 'Entité',
+      found: predefinedType ? `${this.getTypeName(elementId)}.${predefinedType}` : this.getTypeName(elementId),
+      details: `Valeur attendue: ${expected}`
+    };
+  }
+
+  private async evaluatePropertyFacet(elementId: number, facet: IDSPropertyFacet): Promise<FacetEvaluation> {
+    const props = this.getMatchingProperties(elementId, facet);
+    const prop = props[0] || null;
+    const expected: string[] = [];
+    if (facet.value) expected.push(`Valeur attendue: ${getValueDescription(facet.value)}`);
+    if (facet.dataType) expected.push(`Type attendu: ${facet.dataType.toUpperCase()}${prop ? ` (trouvé: ${prop.dataType || 'valeur sans type'})` : ''}`);
+    if (prop) expected.push(`Source: ${this.describeSource(elementId, prop.sourceId)}`);
+
+    return {
+      present: prop !== null,
+      matches: this.matchesProperties(props, facet),
+      label: `Propriété "${getValueDescription(facet.propertySet)}.${getValueDescription(facet.baseName)}"`,
+      found: prop ? props.map(p => this.formatTypedValue(p)).join(', ') : undefined,
+      details: expected.length > 0 ? expected.join(' • ') : undefined
     };
   }
 
-  private async checkAttributeFacet(elementId: number, facet: IDSAttributeFacet, minOccurs: number): Promise<{status: 'PASS' | 'FAIL' | 'WARNING', message: string, details?: string}> {
+  private async evaluateAttributeFacet(elementId: number, facet: IDSAttributeFacet): Promise<FacetEvaluation> {
     const attrName = this.getSimpleValue(facet.name) || '';
     const element = this.getElement(elementId);
-    const attrValue = this.getValue(element?.[attrName]);
-    
-    if (attrValue === null || attrValue === undefined) {
-      if (minOccurs === 0) {
-        return { status: 'PASS', message: `Attribut optionnel "${attrName}" absent (autorisé)` };
-      }
-      return { status: 'FAIL', message: `Attribut "${attrName}" manquant` };
-    }
+    const attr = this.toTypedValue(element?.[attrName]);
+    const present = attr !== null && attr.value !== '';
 
-    if (facet.value) {
-      if (this.matchesValue(attrValue, facet.value)) {
-        return { 
-          status: 'PASS', 
-          message: `Attribut "${attrName}" = "${attrValue}" ✓` 
-        };
-      } else {
-        return { 
-          status: 'FAIL', 
-          message: `Attribut "${attrName}" = "${attrValue}" (non conforme)`,
-          details: `Valeur attendue: ${getValueDescription(facet.value)}`
-        };
-      }
-    }
-
-    return { status: 'PASS', message: `Attribut "${attrName}" présent` };
+    return {
+      present,
+      matches: present && (!facet.value || this.matchesValue(attr.value, facet.value, attr.kind)),
+      label: `Attribut "${attrName}"`,
+      found: present ? this.formatTypedValue(attr) : undefined,
+      details: facet.value ? `Valeur attendue: ${getValueDescription(facet.value)}` : undefined
+    };
   }
 
-  private async checkClassificationFacet(elementId: number, facet: IDSClassificationFacet, minOccurs: number): Promise<{status: 'PASS' | 'FAIL' | 'WARNING', message: string}> {
+  private async evaluateClassificationFacet(elementId: number, facet: IDSClassificationFacet): Promise<FacetEvaluation> {
     const classifications = await this.getClassifications(elementId);
-    
-    if (classifications.length === 0) {
-      if (minOccurs === 0) {
-        return { status: 'PASS', message: 'Classification optionnelle absente (autorisé)' };
-      }
-      return { status: 'FAIL', message: 'Aucune classification trouvée' };
-    }
-
-    for (const cls of classifications) {
-      let matches = true;
+    const matches = classifications.some(cls => this.matchesClassification(cls, facet));
+    const expected = `Valeur attendue: ${facet.system ? getValueDescription(facet.system) : '*'}:${facet.value ? getValueDescription(facet.value) : '*'}`;
 
-      if (facet.system && !this.matchesValue(cls.system, facet.system)) {
-        matches = false;
-      }
-      if (facet.value && !this.matchesValue(cls.value, facet.value)) {
-        matches = false;
-      }
+    return {
+      present: classifications.length > 0,
+      matches,
+      label: 'Classification',
+      found: classifications.length > 0 ? classifications.map(c => this.formatClassification(c)).join(', ') : undefined,
+      details: classifications.length > 0
+        ? `${expected} • Source: ${classifications.map(c => `${this.formatClassification(c)} (${this.describeSource(elementId, c.sourceId)})`).join(', ')}`
+        : expected
+    };
+  }
 
-      if (matches) {
-        return { 
-          status: 'PASS', 
-          message: `Classification "${cls.system}: ${cls.value}" ✓` 
-        };
-      }
-    }
+  private async evaluateMaterialFacet(elementId: number, facet: IDSMaterialFacet): Promise<FacetEvaluation> {
+    const materials = await this.getMaterials(elementId);
+    const matches = materials.length > 0 && (!facet.value || materials.some(mat => this.matchesValue(mat.name, facet.value!)));
+    const details: string[] = [];
+    if (facet.value) details.push(`Valeur attendue: ${getValueDescription(facet.value)}`);
+    if (materials.length > 0) details.push(`Source: ${this.describeSource(elementId, materials[0].sourceId)}`);
 
-    return { 
-      status: 'FAIL', 
-      message: `Classification non conforme. Trouvé: ${classifications.map(c => `${c.system}:${c.value}`).join(', ')}` 
+    return {
+      present: materials.length > 0,
+      matches,
+      label: 'Matériau',
+      found: materials.length > 0 ? materials.map(mat => mat.name).join(', ') : undefined,
+      details: details.length > 0 ? details.join(' • ') : undefined
     };
   }
 
-  private async checkMaterialFacet(elementId: number, facet: IDSMaterialFacet, minOccurs: number): Promise<{status: 'PASS' | 'FAIL' | 'WARNING', message: string}> {
-    const materials = await this.getMaterials(elementId);
-    
-    if (materials.length === 0) {
-      if (minOccurs === 0) {
-        return { status: 'PASS', message: 'Matériau optionnel absent (autorisé)' };
-      }
-      return { status: 'FAIL', message: 'Aucun matériau assigné' };
-    }
+  // The value may match the reference itself or any of its parent references
+  private matchesClassification(cls: ClassificationValue, facet: IDSClassificationFacet): boolean {
+    return (!facet.system || this.matchesValue(cls.system, facet.system)) &&
+      (!facet.value || cls.path.some(value => this.matchesValue(value, facet.value!)));
+  }
 
-    if (facet.value) {
-      for (const mat of materials) {
-        if (this.matchesValue(mat, facet.value)) {
-          return { status: 'PASS', message: `Matériau "${mat}" ✓` };
-        }
-      }
-      return { 
-        status: 'FAIL', 
-        message: `Matériau non conforme. Trouvé: ${materials.join(', ')}` 
-      };
-    }
+  private formatClassification(cls: ClassificationValue): string {
+    return `${cls.system}:${[...cls.path].reverse().join(' > ')}`;
+  }
 
-    return { status: 'PASS', message: `Matériau présent: ${materials.join(', ')}` };
+  private async evaluatePartOfFacet(elementId: number, facet: IDSPartOfFacet): Promise<FacetEvaluation> {
+    const parentTypes = new Set(this.resolveEntityTypes(facet.entity).codes);
+    const parentId = parentTypes.size > 0 ? this.findPartOfParent(elementId, parentTypes, facet.relation) : null;
+    const via = facet.relation ? ` (${facet.relation})` : '';
+    const parentName = parentId !== null ? this.getValue(this.getElement(parentId)?.Name) || `#${parentId}` : null;
+
+    return {
+      present: parentId !== null,
+      matches: parentId !== null,
+      label: `Fait partie de ${getValueDescription(facet.entity)}${via}`,
+      found: parentId !== null ? `${this.getTypeName(parentId)} ${parentName}` : undefined
+    };
   }
 
   // Helper methods
   private getElement(id: number): any {
+    if (!id) return null;
     if (this.elementCache.has(id)) {
       return this.elementCache.get(id);
     }
@@ -596,6 +1101,19 @@ export class IDSAuditEngine {
     }
   }
 
+  private getRefId(ref: any): number | null {
+    if (ref === null || ref === undefined) return null;
+    return typeof ref === 'object' ? ref.value : ref;
+  }
+
+  private getSchemaName(): string {
+    try {
+      return this.ifcApi.GetModelSchema(this.modelID) || 'IFC';
+    } catch (e) {
+      return 'IFC';
+    }
+  }
+
   private getValue(obj: any): any {
     if (obj === null || obj === undefined) return null;
     if (typeof obj === 'object' && obj.value !== undefined) return obj.value;
@@ -611,219 +1129,395 @@ export class IDSAuditEngine {
     return null;
   }
 
-  private matchesValue(actual: any, expected: IDSValue): boolean {
+  // With a pattern for the set or property name, every property it selects must match
+  private matchesProperties(props: PropertyValue[], facet: IDSPropertyFacet): boolean {
+    return props.length > 0 && props.every(prop => this.matchesPropertyValue(prop, facet));
+  }
+
+  // A property matches when its stored measure type is the IDS dataType (if any) and its value, or one of its listed values, matches.
+  // A value stored without a measure type never has the requested dataType.
+  private matchesPropertyValue(prop: PropertyValue, facet: IDSPropertyFacet): boolean {
+    if (facet.dataType && prop.dataType !== facet.dataType.toUpperCase()) return false;
+    if (!facet.value) return true;
+    return (prop.values || [prop.value]).some(value => this.matchesValue(value, facet.value!, prop.kind));
+  }
+
+  private toTypedValue(raw: any): TypedValue | null {
+    const value = this.getValue(raw);
+    if (value === null || value === undefined) return null;
+
+    const dataType = typeof raw === 'object' && raw.name ? String(raw.name).toUpperCase() : null;
+    return { value, dataType, kind: this.getValueKind(value, dataType, raw?.type === WEBIFC_INTEGER) };
+  }
+
+  private toPropertyValue(prop: IFCPropertyEntry, sourceId: number): PropertyValue {
+    const sample = prop.values ? prop.values[0] : prop.value;
+    return { value: prop.value, values: prop.values, dataType: prop.dataType, kind: this.getValueKind(sample, prop.dataType, !!prop.integer), sourceId };
+  }
+
+  private getValueKind(value: unknown, dataType: string | null, integer: boolean): ValueKind {
+    if (dataType === 'IFCLOGICAL') return 'logical';
+    if (dataType === 'IFCBOOLEAN' || typeof value === 'boolean') return 'boolean';
+    if (typeof value === 'number') return integer ? 'integer' : 'real';
+    return 'string';
+  }
+
+  private formatTypedValue(typed: TypedValue): string {
+    return typed.kind === 'logical' ? this.toLogical(typed.value) : String(typed.value);
+  }
+
+  // IfcLogical is stored by web-ifc as 0 (false), 1 (true) or 2 (unknown)
+  private toLogical(value: any): 'TRUE' | 'FALSE' | 'UNKNOWN' {
+    if (value === true || value === 1 || String(value).toUpperCase() === 'T' || String(value).toUpperCase() === 'TRUE') return 'TRUE';
+    if (value === false || value === 0 || String(value).toUpperCase() === 'F' || String(value).toUpperCase() === 'FALSE') return 'FALSE';
+    return 'UNKNOWN';
+  }
+
+  private matchesValue(actual: any, expected: IDSValue, kind?: ValueKind): boolean {
     if (actual === null || actual === undefined) return false;
     
-    const actualStr = String(actual);
+    const valueKind = kind ?? (typeof actual === 'boolean' ? 'boolean' : typeof actual === 'number' ? 'real' : 'string');
 
     if (expected.type === 'simple') {
-      return actualStr.toLowerCase() === expected.value.toLowerCase();
+      return this.equalsLiteral(actual, expected.value, valueKind);
     }
 
     if (expected.type === 'restriction') {
-      if (expected.enumeration) {
-        return expected.enumeration.some(e => actualStr.toLowerCase() === e.toLowerCase());
-      }
-      if (expected.pattern) {
-        try {
-          const regex = new RegExp(expected.pattern);
-          return regex.test(actualStr);
-        } catch (e) {
-          return false;
-        }
-      }
-      if (expected.minLength !== undefined && actualStr.length < expected.minLength) return false;
-      if (expected.maxLength !== undefined && actualStr.length > expected.maxLength) return false;
-      
-      const numVal = parseFloat(actualStr);
-      if (!isNaN(numVal)) {
-        if (expected.minInclusive !== undefined && numVal < expected.minInclusive) return false;
-        if (expected.maxInclusive !== undefined && numVal > expected.maxInclusive) return false;
-      }
-      
-      return true;
+      return this.matchesRestriction(actual, expected, valueKind);
     }
 
     return false;
   }
 
-  private async getPropertyValue(elementId: number, psetName: string, propName: string): Promise<any> {
-    // Check cache first
-    const cached = this.propertyCache.get(elementId);
-    if (cached?.has(psetName)) {
-      return cached.get(psetName)?.get(propName) ?? null;
+  // IDS comparison rules: strings are case-sensitive, booleans follow xs:boolean, reals use a relative tolerance
+  private equalsLiteral(actual: any, literal: string, kind: ValueKind): boolean {
+    switch (kind) {
+      case 'boolean':
+      case 'logical': {
+        const actualLogical = this.toLogical(actual);
+        const expected = literal.trim().toLowerCase();
+        if (expected === 'unknown') return actualLogical === 'UNKNOWN';
+        if (expected === 'true' || expected === '1') return actualLogical === 'TRUE';
+        if (expected === 'false' || expected === '0') return actualLogical === 'FALSE';
+        return false;
+      }
+      case 'integer':
+      case 'real': {
+        const expected = literal.trim() === '' ? NaN : Number(literal);
+        const value = Number(actual);
+        if (isNaN(expected) || isNaN(value)) return false;
+        if (kind === 'integer') return value === expected;
+        return Math.abs(value - expected) <= Math.abs(expected) * REAL_TOLERANCE + REAL_TOLERANCE;
+      }
+      default:
+        return String(actual) === literal;
+    }
+  }
+
+  // Every facet of the restriction must hold; patterns and enumerations are alternatives
+  private matchesRestriction(actual: any, expected: IDSRestriction, kind: ValueKind): boolean {
+    const actualStr = kind === 'logical' ? this.toLogical(actual) : String(actual);
+
+    if (expected.enumeration && !expected.enumeration.some(e => this.equalsLiteral(actual, e, kind))) {
+      return false;
+    }
+    if (expected.pattern) {
+      const regex = this.compilePattern(expected.pattern);
+      if (!regex || !regex.test(actualStr)) return false;
     }
 
+    if (expected.length !== undefined && actualStr.length !== expected.length) return false;
+    if (expected.minLength !== undefined && actualStr.length < expected.minLength) return false;
+    if (expected.maxLength !== undefined && actualStr.length > expected.maxLength) return false;
+
+    const hasBounds = expected.minInclusive !== undefined || expected.maxInclusive !== undefined ||
+      expected.minExclusive !== undefined || expected.maxExclusive !== undefined;
+    if (hasBounds) {
+      const numVal = actualStr.trim() === '' ? NaN : Number(actualStr);
+      if (isNaN(numVal)) return false;
+      if (expected.minInclusive !== undefined && numVal < expected.minInclusive) return false;
+      if (expected.maxInclusive !== undefined && numVal > expected.maxInclusive) return false;
+      if (expected.minExclusive !== undefined && numVal <= expected.minExclusive) return false;
+      if (expected.maxExclusive !== undefined && numVal >= expected.maxExclusive) return false;
+    }
+
+    if (expected.totalDigits !== undefined || expected.fractionDigits !== undefined) {
+      const digits = this.countDigits(actualStr);
+      if (!digits) return false;
+      if (expected.totalDigits !== undefined && digits.total > expected.totalDigits) return false;
+      if (expected.fractionDigits !== undefined && digits.fraction > expected.fractionDigits) return false;
+    }
+
+    return true;
+  }
+
+  // XSD patterns are implicitly anchored and several patterns on one restriction are alternatives
+  private compilePattern(patterns: string[]): RegExp | null {
+    const key = patterns.join('\n');
+    if (this.regexCache.has(key)) return this.regexCache.get(key)!;
+
+    let regex: RegExp | null = null;
     try {
-      // Get through IfcRelDefinesByProperties
-      const IFCRELDEFINESBYPROPERTIES = 4186316022;
-      const relIds = this.ifcApi.GetLineIDsWithType(this.modelID, IFCRELDEFINESBYPROPERTIES);
-      
-      for (let i = 0; i < relIds.size(); i++) {
-        const relId = relIds.get(i);
-        const rel = this.getElement(relId);
-        if (!rel?.RelatedObjects) continue;
+      regex = new RegExp(patterns.map(p => `^(?:${p})$`).join('|'));
+    } catch (e) {
+      console.warn('Invalid IDS pattern:', patterns);
+    }
+    this.regexCache.set(key, regex);
+    return regex;
+  }
 
-        // Check if this relation applies to our element
-        const relatedIds = rel.RelatedObjects.map((r: any) => typeof r === 'object' ? r.value : r);
-        if (!relatedIds.includes(elementId)) continue;
+  // Significant digits of a decimal literal, as counted by XSD totalDigits/fractionDigits
+  private countDigits(value: string): { total: number, fraction: number } | null {
+    const match = /^[+-]?(\d*)(?:\.(\d*))?$/.exec(value.trim());
+    if (!match || (!match[1] && !match[2])) return null;
 
-        // Get property definition
-        const propDefRef = rel.RelatingPropertyDefinition;
-        const propDefId = typeof propDefRef === 'object' ? propDefRef.value : propDefRef;
-        const propDef = this.getElement(propDefId);
-        if (!propDef) continue;
+    const integer = match[1].replace(/^0+/, '');
+    const fraction = (match[2] || '').replace(/0+$/, '');
+    return { total: Math.max(integer.length + fraction.length, 1), fraction: fraction.length };
+  }
 
-        const currentPsetName = this.getValue(propDef.Name);
-        
-        // Check if this is the property set we're looking for (case insensitive, pattern match)
-        const psetMatches = psetName.includes('*') ? 
-          new RegExp(psetName.replace(/\*/g, '.*'), 'i').test(currentPsetName) :
-          currentPsetName?.toLowerCase() === psetName.toLowerCase();
-        
-        if (!psetMatches) continue;
-
-        // Look for the property
-        if (propDef.HasProperties && Array.isArray(propDef.HasProperties)) {
-          for (const propRef of propDef.HasProperties) {
-            const propId = typeof propRef === 'object' ? propRef.value : propRef;
-            const prop = this.getElement(propId);
-            if (!prop) continue;
-
-            const currentPropName = this.getValue(prop.Name);
-            
-            const propMatches = propName.includes('*') ?
-              new RegExp(propName.replace(/\*/g, '.*'), 'i').test(currentPropName) :
-              currentPropName?.toLowerCase() === propName.toLowerCase();
-            
-            if (propMatches) {
-              return this.getValue(prop.NominalValue) ?? this.getValue(prop.Value);
-            }
-          }
+  // Property set and property names are IDS values like any other: case-sensitive literals, enumerations or patterns
+  private getMatchingProperties(elementId: number, facet: IDSPropertyFacet): PropertyValue[] {
+    const props: PropertyValue[] = [];
+    for (const [psetName, properties] of this.getPropertySets(elementId)) {
+      if (!this.matchesValue(psetName, facet.propertySet, 'string')) continue;
+      for (const [propName, value] of properties) {
+        if (this.matchesValue(propName, facet.baseName, 'string')) props.push(value);
+      }
+    }
+    return props;
+  }
+
+  // Property sets of an element merged with those of its type object, occurrence values overriding type values
+  private getPropertySets(elementId: number): Map<string, Map<string, PropertyValue>> {
+    const cached = this.propertyCache.get(elementId);
+    if (cached) return cached;
+
+    const own = this.readPropertySets(elementId);
+    const typeId = this.getTypeIndex().get(elementId);
+    let psets = own;
+
+    if (typeId !== undefined) {
+      // Types have no type of their own, so this reads (and caches) the type's property sets once
+      psets = new Map();
+      for (const [psetName, properties] of this.getPropertySets(typeId)) {
+        psets.set(psetName, new Map(properties));
+      }
+      for (const [psetName, properties] of own) {
+        const merged = psets.get(psetName);
+        if (!merged) {
+          psets.set(psetName, properties);
+          continue;
         }
+        for (const [propName, value] of properties) merged.set(propName, value);
+      }
+    }
 
-        // Check quantities
-        if (propDef.Quantities && Array.isArray(propDef.Quantities)) {
-          for (const qtyRef of propDef.Quantities) {
-            const qtyId = typeof qtyRef === 'object' ? qtyRef.value : qtyRef;
-            const qty = this.getElement(qtyId);
-            if (!qty) continue;
-
-            const currentQtyName = this.getValue(qty.Name);
-            if (currentQtyName?.toLowerCase() === propName.toLowerCase()) {
-              return this.getValue(qty.LengthValue) ?? 
-                     this.getValue(qty.AreaValue) ?? 
-                     this.getValue(qty.VolumeValue) ??
-                     this.getValue(qty.CountValue) ??
-                     this.getValue(qty.WeightValue);
-            }
-          }
+    this.propertyCache.set(elementId, psets);
+    return psets;
+  }
+
+  // Property sets and quantity sets defined on the object itself (IfcRelDefinesByProperties, plus HasPropertySets for types)
+  // Read with the IFCProperties helpers, so the audit sees the same values as the properties panel and the generator
+  private readPropertySets(objectId: number): Map<string, Map<string, PropertyValue>> {
+    const psets = new Map<string, Map<string, PropertyValue>>();
+    try {
+      for (const propDefId of getObjectPropertySetIds(this.ifcApi, this.modelID, objectId, this.getRelationIndex('IFCRELDEFINESBYPROPERTIES'))) {
+        const pset = readPropertySet(this.ifcApi, this.modelID, propDefId);
+        if (!pset?.name) continue;
+
+        const properties = psets.get(pset.name) || new Map<string, PropertyValue>();
+        for (const prop of pset.properties) {
+          if (!properties.has(prop.name)) properties.set(prop.name, this.toPropertyValue(prop, objectId));
         }
+        psets.set(pset.name, properties);
       }
     } catch (e) {
       console.warn('Property lookup error:', e);
     }
 
-    return null;
+    return psets;
   }
 
-  private async getClassifications(elementId: number): Promise<{system: string, value: string}[]> {
-    const results: {system: string, value: string}[] = [];
-    
+  // Related object -> relationship ids for one relationship type, built once per model and shared by every spec
+  private getRelationIndex(relationType: string, relatedAttr = 'RelatedObjects'): Map<number, number[]> {
+    const key = `${relationType}.${relatedAttr}`;
+    const cached = this.relationIndexes.get(key);
+    if (cached) return cached;
+
+    const index = new Map<number, number[]>();
+    this.relationIndexes.set(key, index);
+
+    const relType = this.getSchemaTypes().get(relationType);
+    if (relType === undefined) return index;
+
     try {
-      const IFCRELASSOCIATESCLASSIFICATION = 919958153;
-      const relIds = this.ifcApi.GetLineIDsWithType(this.modelID, IFCRELASSOCIATESCLASSIFICATION);
-      
+      const relIds = this.ifcApi.GetLineIDsWithType(this.modelID, relType, true);
       for (let i = 0; i < relIds.size(); i++) {
         const relId = relIds.get(i);
-        const rel = this.getElement(relId);
-        if (!rel?.RelatedObjects) continue;
-
-        const relatedIds = rel.RelatedObjects.map((r: any) => typeof r === 'object' ? r.value : r);
-        if (!relatedIds.includes(elementId)) continue;
-
-        const classRefId = typeof rel.RelatingClassification === 'object' ? 
-          rel.RelatingClassification.value : rel.RelatingClassification;
-        const classification = this.getElement(classRefId);
-        if (!classification) continue;
-
-        let systemName = '';
-        if (classification.ReferencedSource) {
-          const sourceId = typeof classification.ReferencedSource === 'object' ? 
-            classification.ReferencedSource.value : classification.ReferencedSource;
-          const source = this.getElement(sourceId);
-          systemName = this.getValue(source?.Name) || '';
+        const related = this.getElement(relId)?.[relatedAttr];
+        for (const objRef of Array.isArray(related) ? related : [related]) {
+          const objId = this.getRefId(objRef);
+          if (!objId) continue;
+          const rels = index.get(objId);
+          if (rels) rels.push(relId);
+          else index.set(objId, [relId]);
         }
+      }
+    } catch (e) {
+      console.warn(`Could not index ${relationType}:`, e);
+    }
+
+    return index;
+  }
 
-        const classValue = this.getValue(classification.Identification) || 
-                          this.getValue(classification.ItemReference) ||
-                          this.getValue(classification.Name) || '';
+  // Classifications of the element, plus those of its type object for systems the element does not classify itself
+  private async getClassifications(elementId: number): Promise<ClassificationValue[]> {
+    const results = this.readClassifications(elementId);
+    const typeId = this.getTypeIndex().get(elementId);
+    if (typeId === undefined) return results;
 
-        results.push({ system: systemName, value: classValue });
-      }
-    } catch (e) {}
+    const ownSystems = new Set(results.map(cls => cls.system));
+    for (const cls of this.readClassifications(typeId)) {
+      if (!ownSystems.has(cls.system)) results.push(cls);
+    }
 
     return results;
   }
 
-  private async getMaterials(elementId: number): Promise<string[]> {
-    const results: string[] = [];
+  private readClassifications(objectId: number): ClassificationValue[] {
+    const results: ClassificationValue[] = [];
     
-    try {
-      const IFCRELASSOCIATESMATERIAL = 2655215786;
-      const relIds = this.ifcApi.GetLineIDsWithType(this.modelID, IFCRELASSOCIATESMATERIAL);
-      
-      for (let i = 0; i < relIds.size(); i++) {
-        const relId = relIds.get(i);
-        const rel = this.getElement(relId);
-        if (!rel?.RelatedObjects) continue;
+    for (const relId of this.getRelationIndex('IFCRELASSOCIATESCLASSIFICATION').get(objectId) || []) {
+      const classificationId = this.getRefId(this.getElement(relId)?.RelatingClassification);
+      if (!classificationId) continue;
 
-        const relatedIds = rel.RelatedObjects.map((r: any) => typeof r === 'object' ? r.value : r);
-        if (!relatedIds.includes(elementId)) continue;
+      const { system, path } = this.resolveClassification(classificationId);
+      results.push({ system, path, sourceId: objectId });
+    }
 
-        const matId = typeof rel.RelatingMaterial === 'object' ? 
-          rel.RelatingMaterial.value : rel.RelatingMaterial;
-        const material = this.getElement(matId);
-        
-        const matName = this.getValue(material?.Name);
-        if (matName) results.push(matName);
+    return results;
+  }
+
+  // Walks IfcClassificationReference.ReferencedSource up to the IfcClassification, collecting every level on the way
+  private resolveClassification(classificationId: number): { system: string, path: string[] } {
+    const cached = this.classificationCache.get(classificationId);
+    if (cached) return cached;
+
+    let system = '';
+    const path: string[] = [];
+    const visited = new Set<number>();
+    let currentId: number | null = classificationId;
+
+    while (currentId && !visited.has(currentId)) {
+      visited.add(currentId);
+      const current = this.getElement(currentId);
+      if (!current) break;
+
+      const typeName = this.getTypeName(currentId);
+      if (typeName === 'IFCCLASSIFICATION') {
+        system = this.getValue(current.Name) || this.getValue(current.Source) || '';
+        break;
+      }
+
+      if (typeName === 'IFCCLASSIFICATIONNOTATION') {
+        // IFC2X3 notation: one facet per level, without a link to the system
+        for (const facetRef of Array.isArray(current.NotationFacets) ? current.NotationFacets : []) {
+          const notation = this.getValue(this.getElement(this.getRefId(facetRef))?.NotationValue);
+          if (notation) path.push(notation);
+        }
+        break;
+      }
+
+      // IFC4 Identification, IFC2X3 ItemReference
+      const identification = this.getValue(current.Identification) ||
+                            this.getValue(current.ItemReference) ||
+                            this.getValue(current.Name);
+      if (identification) path.push(String(identification));
+      currentId = this.getRefId(current.ReferencedSource);
+    }
+
+    const resolved = { system, path };
+    this.classificationCache.set(classificationId, resolved);
+    return resolved;
+  }
+
+  // Materials of the element, or of its type object when the element has no material association of its own
+  private async getMaterials(elementId: number): Promise<MaterialValue[]> {
+    const typeId = this.getTypeIndex().get(elementId);
+    const ownAssociation = this.getRelationIndex('IFCRELASSOCIATESMATERIAL').has(elementId);
+    return !ownAssociation && typeId !== undefined ? this.readMaterials(typeId) : this.readMaterials(elementId);
+  }
+
+  private readMaterials(objectId: number): MaterialValue[] {
+    const results: MaterialValue[] = [];
+    
+    for (const relId of this.getRelationIndex('IFCRELASSOCIATESMATERIAL').get(objectId) || []) {
+      const materialId = this.getRefId(this.getElement(relId)?.RelatingMaterial);
+      if (!materialId) continue;
+
+      let names = this.materialNameCache.get(materialId);
+      if (!names) {
+        names = getMaterialNames(getMaterialEntries(this.ifcApi, this.modelID, materialId));
+        this.materialNameCache.set(materialId, names);
       }
-    } catch (e) {}
+      for (const name of names) results.push({ name, sourceId: objectId });
+    }
 
     return results;
   }
 
+  // Where a value was read from, for result details
+  private describeSource(elementId: number, sourceId: number): string {
+    if (sourceId === elementId) return 'occurrence';
+    const name = this.getValue(this.getElement(sourceId)?.Name);
+    return `hérité du type ${this.getTypeName(sourceId)}${name ? ` "${name}"` : ''} #${sourceId}`;
+  }
+
   private getRequirementDescription(req: IDSRequirement): string {
-    const facet = req.facet;
-    const optional = req.minOccurs === 0 ? ' (optionnel)' : '';
+    const cardinality = req.cardinality;
+    const optional = cardinality === 'optional' ? ' (optionnel)' : cardinality === 'prohibited' ? ' (interdit)' : '';
+    return this.getFacetDescription(req.facet) + optional;
+  }
 
+  private getFacetDescription(facet: IDSAnyFacet): string {
     switch (facet.type) {
+      case 'entity': {
+        const ef = facet as IDSEntityFacet;
+        const predefined = ef.predefinedType ? `.${getValueDescription(ef.predefinedType)}` : '';
+        return `Entité: ${getValueDescription(ef.name)}${predefined}`;
+      }
       case 'property': {
         const pf = facet as IDSPropertyFacet;
-        const pset = this.getSimpleValue(pf.propertySet) || '*';
-        const prop = this.getSimpleValue(pf.baseName) || '*';
+        const pset = getValueDescription(pf.propertySet);
+        const prop = getValueDescription(pf.baseName);
         const val = pf.value ? ` = ${getValueDescription(pf.value)}` : '';
-        return `Propriété: ${pset}.${prop}${val}${optional}`;
+        return `Propriété: ${pset}.${prop}${val}`;
       }
       case 'attribute': {
         const af = facet as IDSAttributeFacet;
         const attr = this.getSimpleValue(af.name) || '*';
         const val = af.value ? ` = ${getValueDescription(af.value)}` : '';
-        return `Attribut: ${attr}${val}${optional}`;
+        return `Attribut: ${attr}${val}`;
       }
       case 'classification': {
         const cf = facet as IDSClassificationFacet;
-        const sys = cf.system ? this.getSimpleValue(cf.system) : '*';
-        const val = cf.value ? this.getSimpleValue(cf.value) : '*';
-        return `Classification: ${sys}:${val}${optional}`;
+        const sys = cf.system ? getValueDescription(cf.system) : '*';
+        const val = cf.value ? getValueDescription(cf.value) : '*';
+        return `Classification: ${sys}:${val}`;
       }
       case 'material': {
         const mf = facet as IDSMaterialFacet;
         const val = mf.value ? getValueDescription(mf.value) : 'présent';
-        return `Matériau: ${val}${optional}`;
+        return `Matériau: ${val}`;
+      }
+      case 'partOf': {
+        const pf = facet as IDSPartOfFacet;
+        const via = pf.relation ? ` via ${pf.relation}` : '';
+        return `Fait partie de: ${getValueDescription(pf.entity)}${via}`;
       }
       default:
-        return `Requirement: ${facet.type}${optional}`;
+        return `Requirement: ${(facet as IDSAnyFacet).type}`;
     }
   }
 }
@@ -0,0 +1,175 @@
+// IDS Audit Runner - Main-thread handle on the audit worker
+import { IDSFile, IDSSpecification, IDSAnyFacet } from './IDSParser';
+import { AuditResult, AuditSummary, ElementExplanation, IDSSource, ModelCatalog, SpecificationCoverage } from './IDSAuditEngine';
+
+export type AuditWorkerRequest =
+  | { type: 'run'; ifcFileUrl: string; sources: IDSSource[] }
+  | { type: 'cancel' }
+  | { type: 'explain'; requestId: number; ifcFileUrl: string; specification: IDSSpecification; elementId: number }
+  | { type: 'count'; requestId: number; ifcFileUrl: string; applicability: IDSAnyFacet[] }
+  | { type: 'catalog'; requestId: number; ifcFileUrl: string }
+  | { type: 'generate'; requestId: number; ifcFileUrl: string; title: string }
+  | { type: 'coverage'; requestId: number; ifcFileUrl: string; sources: IDSSource[] };
+
+export type AuditWorkerResponse =
+  | { type: 'progress'; message: string; percent: number }
+  | { type: 'results'; results: AuditResult[] }
+  | { type: 'done'; summary: AuditSummary } // Sent without results, they were already streamed
+  | { type: 'explanation'; requestId: number; explanation: ElementExplanation }
+  | { type: 'count'; requestId: number; count: number }
+  | { type: 'catalog'; requestId: number; catalog: ModelCatalog }
+  | { type: 'generated'; requestId: number; ids: IDSFile }
+  | { type: 'coverage'; requestId: number; coverage: SpecificationCoverage[] }
+  | { type: 'error'; message: string; requestId?: number }; // requestId set for every request but audit runs
+
+interface PendingRun {
+  results: AuditResult[];
+  onProgress?: (message: string, percent: number) => void;
+  onResults?: (results: AuditResult[]) => void;
+  resolve: (summary: AuditSummary) => void;
+  reject: (error: Error) => void;
+}
+
+interface PendingRequest {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+export class IDSAuditRunner {
+  private worker: Worker;
+  private currentRun: PendingRun | null = null;
+  private requests: Map<number, PendingRequest> = new Map();
+  private nextRequestId = 1;
+
+  constructor() {
+    this.worker = new Worker(new URL('./IDSAuditWorker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (event: MessageEvent<AuditWorkerResponse>) => this.handleMessage(event.data);
+    this.worker.onerror = (event) => this.failAll(new Error(event.message || 'Erreur du worker d\'audit'));
+  }
+
+  get isRunning(): boolean {
+    return this.currentRun !== null;
+  }
+
+  // Runs the audit of the IDS set in the worker, which loads (and keeps) its own copy of the IFC model
+  run(
+    ifcFileUrl: string,
+    sources: IDSSource[],
+    onProgress?: (message: string, percent: number) => void,
+    onResults?: (results: AuditResult[]) => void
+  ): Promise<AuditSummary> {
+    if (this.currentRun) {
+      return Promise.reject(new Error('Un audit est déjà en cours'));
+    }
+
+    return new Promise((resolve, reject) => {
+      this.currentRun = { results: [], onProgress, onResults, resolve, reject };
+      this.post({ type: 'run', ifcFileUrl, sources });
+    });
+  }
+
+  // The worker stops after the element being checked and returns a partial summary
+  cancel() {
+    if (this.currentRun) this.post({ type: 'cancel' });
+  }
+
+  // Explain mode for one element and one specification, answered between audit batches if an audit is running
+  explain(ifcFileUrl: string, specification: IDSSpecification, elementId: number): Promise<ElementExplanation> {
+    return this.request(requestId => ({ type: 'explain', requestId, ifcFileUrl, specification, elementId }));
+  }
+
+  // Number of elements an applicability selects, for the IDS editor preview
+  countApplicable(ifcFileUrl: string, applicability: IDSAnyFacet[]): Promise<number> {
+    return this.request(requestId => ({ type: 'count', requestId, ifcFileUrl, applicability }));
+  }
+
+  // Entities and property sets of the model, for the IDS editor dropdowns
+  getCatalog(ifcFileUrl: string): Promise<ModelCatalog> {
+    return this.request(requestId => ({ type: 'catalog', requestId, ifcFileUrl }));
+  }
+
+  // Draft IDS reverse-engineered from the model, see IDSGenerator
+  generateIDS(ifcFileUrl: string, title: string): Promise<IDSFile> {
+    return this.request(requestId => ({ type: 'generate', requestId, ifcFileUrl, title }));
+  }
+
+  // Applicable element counts of every specification of the IDS set, facet by facet
+  getCoverage(ifcFileUrl: string, sources: IDSSource[]): Promise<SpecificationCoverage[]> {
+    return this.request(requestId => ({ type: 'coverage', requestId, ifcFileUrl, sources }));
+  }
+
+  dispose() {
+    this.worker.terminate();
+    this.failAll(new Error('Audit interrompu'));
+  }
+
+  private handleMessage(message: AuditWorkerResponse) {
+    const run = this.currentRun;
+
+    switch (message.type) {
+      case 'progress':
+        run?.onProgress?.(message.message, message.percent);
+        break;
+      case 'results':
+        if (!run) break;
+        for (const result of message.results) run.results.push(result);
+        run.onResults?.(message.results);
+        break;
+      case 'done':
+        if (!run) break;
+        this.currentRun = null;
+        run.resolve({ ...message.summary, results: run.results });
+        break;
+      case 'explanation':
+        this.settle(message.requestId, pending => pending.resolve(message.explanation));
+        break;
+      case 'count':
+        this.settle(message.requestId, pending => pending.resolve(message.count));
+        break;
+      case 'catalog':
+        this.settle(message.requestId, pending => pending.resolve(message.catalog));
+        break;
+      case 'generated':
+        this.settle(message.requestId, pending => pending.resolve(message.ids));
+        break;
+      case 'coverage':
+        this.settle(message.requestId, pending => pending.resolve(message.coverage));
+        break;
+      case 'error':
+        if (message.requestId !== undefined) {
+          this.settle(message.requestId, pending => pending.reject(new Error(message.message)));
+        } else if (run) {
+          this.currentRun = null;
+          run.reject(new Error(message.message));
+        }
+        break;
+    }
+  }
+
+  private failAll(error: Error) {
+    this.currentRun?.reject(error);
+    this.currentRun = null;
+    for (const pending of this.requests.values()) pending.reject(error);
+    this.requests.clear();
+  }
+
+  // Requests other than audit runs are answered by requestId
+  private request<T>(build: (requestId: number) => AuditWorkerRequest): Promise<T> {
+    const requestId = this.nextRequestId++;
+    return new Promise<T>((resolve, reject) => {
+      this.requests.set(requestId, { resolve: resolve as (value: unknown) => void, reject });
+      this.post(build(requestId));
+    });
+  }
+
+  private settle(requestId: number, action: (pending: PendingRequest) => void) {
+    const pending = this.requests.get(requestId);
+    if (!pending) return;
+    this.requests.delete(requestId);
+    action(pending);
+  }
+
+  private post(request: AuditWorkerRequest) {
+    this.worker.postMessage(request);
+  }
+}
@@ -0,0 +1,95 @@
+// IDS Audit Worker - Runs IDSAuditEngine off the main thread, on its own web-ifc model instance
+import { IfcAPI } from 'web-ifc';
+import { IDSAuditEngine } from './IDSAuditEngine';
+import { generateIDS } from './IDSGenerator';
+import type { AuditWorkerRequest, AuditWorkerResponse } from './IDSAuditRunner';
+
+const WASM_PATH = 'https://cdn.jsdelivr.net/npm/web-ifc@0.0.46/';
+
+let ifcApi: IfcAPI | null = null;
+let modelID: number | null = null;
+let modelUrl: string | null = null;
+// Kept for the lifetime of the model so its relationship indexes are reused across audits.
+// Shared as a promise, an explain request can arrive while the audit is still loading the model.
+let engine: Promise<IDSAuditEngine> | null = null;
+let cancelRequested = false;
+
+const post = (message: AuditWorkerResponse) => self.postMessage(message);
+
+function loadModel(url: string): Promise<IDSAuditEngine> {
+  if (!engine || modelUrl !== url) {
+    modelUrl = url;
+    engine = openModel(url);
+    // A failed load is retried by the next request
+    engine.catch(() => { if (modelUrl === url) engine = null; });
+  }
+  return engine;
+}
+
+async function openModel(url: string): Promise<IDSAuditEngine> {
+  if (!ifcApi) {
+    post({ type: 'progress', message: 'Initialisation du moteur IFC...', percent: 0 });
+    ifcApi = new IfcAPI();
+    ifcApi.SetWasmPath(WASM_PATH, true);
+    await ifcApi.Init();
+  }
+
+  if (modelID !== null) {
+    try { ifcApi.CloseModel(modelID); } catch (e) { /* Already closed */ }
+    modelID = null;
+  }
+
+  post({ type: 'progress', message: 'Chargement du modèle...', percent: 0 });
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Échec du téléchargement: ${response.status}`);
+  modelID = ifcApi.OpenModel(new Uint8Array(await response.arrayBuffer()));
+  return new IDSAuditEngine(ifcApi, modelID);
+}
+
+self.onmessage = async (event: MessageEvent<AuditWorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'cancel') {
+    cancelRequested = true;
+    return;
+  }
+
+  if (request.type !== 'run') {
+    try {
+      const auditEngine = await loadModel(request.ifcFileUrl);
+      if (request.type === 'explain') {
+        const explanation = await auditEngine.explainElement(request.specification, request.elementId);
+        post({ type: 'explanation', requestId: request.requestId, explanation });
+      } else if (request.type === 'count') {
+        const count = await auditEngine.countApplicableElements(request.applicability);
+        post({ type: 'count', requestId: request.requestId, count });
+      } else if (request.type === 'catalog') {
+        post({ type: 'catalog', requestId: request.requestId, catalog: await auditEngine.getModelCatalog() });
+      } else if (request.type === 'coverage') {
+        post({ type: 'coverage', requestId: request.requestId, coverage: await auditEngine.getCoverage(request.sources) });
+      } else {
+        if (!ifcApi || modelID === null) throw new Error('Modèle IFC non chargé');
+        post({ type: 'generated', requestId: request.requestId, ids: generateIDS(ifcApi, modelID, request.title) });
+      }
+    } catch (e) {
+      post({ type: 'error', requestId: request.requestId, message: e instanceof Error ? e.message : String(e) });
+    }
+    return;
+  }
+
+  cancelRequested = false;
+  try {
+    const auditEngine = await loadModel(request.ifcFileUrl);
+    const summary = await auditEngine.runAuditSet(
+      request.sources,
+      (message, percent) => post({ type: 'progress', message, percent }),
+      {
+        onResults: (results) => post({ type: 'results', results }),
+        isCancelled: () => cancelRequested
+      }
+    );
+    post({ type: 'done', summary: { ...summary, results: [] } });
+  } catch (e) {
+    post({ type: 'error', message: e instanceof Error ? e.message : String(e) });
+  }
+};
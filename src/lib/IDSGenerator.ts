@@ -0,0 +1,204 @@
+// IDS Generator - Draft IDS reverse-engineered from a reference model
+// One specification per entity type, one property requirement per property observed on its elements
+import * as WebIFC from 'web-ifc';
+import type { IfcAPI } from 'web-ifc';
+import { IDSFile, IDSSpecification, IDSRequirement, IDSValue, toIDSIfcVersion } from './IDSParser';
+import {
+  indexRelations,
+  getObjectPropertySetIds,
+  readPropertySet,
+  IFCPropertyEntry,
+  IFCPropertyRawValue
+} from './IFCProperties';
+
+// Beyond this many distinct text values a property gets no enumeration, the values look free-form
+const MAX_ENUMERATION_VALUES = 20;
+
+interface PropertyStats {
+  propertySet: string;
+  name: string;
+  count: number; // Elements carrying the property
+  dataTypes: Set<string | null>;
+  values: Set<string>;
+  booleans: Set<boolean>;
+  numbers: { min: number, max: number, integer: boolean } | null;
+  texts: number; // Text values seen, an enumeration is only kept when every value is text
+}
+
+interface EntityStats {
+  count: number;
+  properties: Map<string, PropertyStats>;
+}
+
+// Walks the elements and spatial structure of the model. Entities are sorted by name, properties by set then name.
+export function generateIDS(ifcApi: IfcAPI, modelID: number, title: string): IDSFile {
+  const propertyRels = new Map<number, number[]>();
+  const typeRels = new Map<number, number[]>();
+  indexRelations(ifcApi, modelID, WebIFC.IFCRELDEFINESBYPROPERTIES, propertyRels);
+  indexRelations(ifcApi, modelID, WebIFC.IFCRELDEFINESBYTYPE, typeRels);
+
+  const entities = new Map<string, EntityStats>();
+
+  for (const elementId of getObjectIds(ifcApi, modelID)) {
+    const typeName = getTypeName(ifcApi, modelID, elementId);
+    if (!typeName) continue;
+
+    const entity = entities.get(typeName) || { count: 0, properties: new Map<string, PropertyStats>() };
+    entity.count++;
+    entities.set(typeName, entity);
+
+    for (const [psetName, properties] of getElementProperties(ifcApi, modelID, elementId, propertyRels, typeRels)) {
+      for (const prop of properties.values()) {
+        const key = `${psetName}\n${prop.name}`;
+        const stats = entity.properties.get(key) || createStats(psetName, prop.name);
+        addObservation(stats, prop);
+        entity.properties.set(key, stats);
+      }
+    }
+  }
+
+  // IFC4X3 models get IFC4X3_ADD2, the only IFC4X3 value of IDS 1.0
+  const ifcVersion = [toIDSIfcVersion(ifcApi.GetModelSchema(modelID) || '') || 'IFC4'];
+  // Entities without any property would give specifications that check nothing
+  const specifications: IDSSpecification[] = [...entities]
+    .filter(([, entity]) => entity.properties.size > 0)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([typeName, entity]) => ({
+      name: typeName,
+      description: `${entity.count} élément(s) dans le modèle de référence`,
+      ifcVersion,
+      cardinality: 'optional',
+      applicability: [{ type: 'entity', name: { type: 'simple', value: typeName } }],
+      requirements: [...entity.properties.values()]
+        .sort((a, b) => a.propertySet.localeCompare(b.propertySet) || a.name.localeCompare(b.name))
+        .map(stats => toRequirement(stats, entity.count))
+    }));
+
+  return {
+    title,
+    date: new Date().toISOString().slice(0, 10),
+    purpose: 'Généré depuis un modèle de référence, à relire avant diffusion',
+    specifications
+  };
+}
+
+function getObjectIds(ifcApi: IfcAPI, modelID: number): number[] {
+  const ids = new Set<number>();
+  for (const type of [WebIFC.IFCELEMENT, WebIFC.IFCSPATIALSTRUCTUREELEMENT]) {
+    try {
+      const lineIds = ifcApi.GetLineIDsWithType(modelID, type, true);
+      for (let i = 0; i < lineIds.size(); i++) ids.add(lineIds.get(i));
+    } catch (e) {
+      console.warn('Could not list IFC objects:', e);
+    }
+  }
+  return [...ids];
+}
+
+function getTypeName(ifcApi: IfcAPI, modelID: number, id: number): string | null {
+  try {
+    return ifcApi.GetNameFromTypeCode(ifcApi.GetLineType(modelID, id)) || null;
+  } catch (e) {
+    return null;
+  }
+}
+
+// Property sets of the element merged with those of its type, occurrence values overriding type values as in the audit
+function getElementProperties(
+  ifcApi: IfcAPI,
+  modelID: number,
+  elementId: number,
+  propertyRels: Map<number, number[]>,
+  typeRels: Map<number, number[]>
+): Map<string, Map<string, IFCPropertyEntry>> {
+  const psets = new Map<string, Map<string, IFCPropertyEntry>>();
+  const add = (propDefIds: number[]) => {
+    // Within one object the first definition of a property wins, as in the audit
+    const added = new Set<string>();
+    for (const propDefId of propDefIds) {
+      const pset = readPropertySet(ifcApi, modelID, propDefId);
+      if (!pset?.name) continue;
+      const properties = psets.get(pset.name) || new Map<string, IFCPropertyEntry>();
+      for (const prop of pset.properties) {
+        const key = `${pset.name}\n${prop.name}`;
+        if (added.has(key)) continue;
+        added.add(key);
+        properties.set(prop.name, prop);
+      }
+      psets.set(pset.name, properties);
+    }
+  };
+
+  for (const relId of typeRels.get(elementId) || []) {
+    try {
+      const typeId = ifcApi.GetLine(modelID, relId)?.RelatingType?.value;
+      if (typeId) add(getObjectPropertySetIds(ifcApi, modelID, typeId, propertyRels));
+    } catch (e) {
+      // Type not readable
+    }
+  }
+  add(getObjectPropertySetIds(ifcApi, modelID, elementId, propertyRels));
+
+  return psets;
+}
+
+function createStats(propertySet: string, name: string): PropertyStats {
+  return { propertySet, name, count: 0, dataTypes: new Set(), values: new Set(), booleans: new Set(), numbers: null, texts: 0 };
+}
+
+function addObservation(stats: PropertyStats, prop: IFCPropertyEntry) {
+  stats.count++;
+  stats.dataTypes.add(prop.dataType);
+
+  for (const value of prop.values || [prop.value as IFCPropertyRawValue]) {
+    if (typeof value === 'boolean') {
+      stats.booleans.add(value);
+    } else if (typeof value === 'number') {
+      const integer = !!prop.integer;
+      stats.numbers = stats.numbers
+        ? { min: Math.min(stats.numbers.min, value), max: Math.max(stats.numbers.max, value), integer: stats.numbers.integer && integer }
+        : { min: value, max: value, integer };
+    } else if (typeof value === 'string' && value !== '') {
+      stats.texts++;
+      if (stats.values.size <= MAX_ENUMERATION_VALUES) stats.values.add(value);
+    }
+  }
+}
+
+// Required when every element of the entity has the property, optional (checked only when present) otherwise
+function toRequirement(stats: PropertyStats, entityCount: number): IDSRequirement {
+  const required = stats.count === entityCount;
+  const dataType = stats.dataTypes.size === 1 ? [...stats.dataTypes][0] || undefined : undefined;
+
+  return {
+    facet: {
+      type: 'property',
+      propertySet: { type: 'simple', value: stats.propertySet },
+      baseName: { type: 'simple', value: stats.name },
+      dataType,
+      value: getObservedValue(stats)
+    },
+    cardinality: required ? 'required' : 'optional',
+    minOccurs: required ? 1 : 0,
+    maxOccurs: 'unbounded'
+  };
+}
+
+// Observed values: the range of numbers, the enumeration of short text value lists, a boolean seen with a single value
+function getObservedValue(stats: PropertyStats): IDSValue | undefined {
+  const kinds = [stats.booleans.size > 0, stats.numbers !== null, stats.texts > 0].filter(Boolean).length;
+  if (kinds !== 1) return undefined;
+
+  if (stats.booleans.size === 1) {
+    return { type: 'simple', value: String([...stats.booleans][0]) };
+  }
+  if (stats.numbers) {
+    const { min, max, integer } = stats.numbers;
+    if (min === max) return { type: 'simple', value: String(min) };
+    return { type: 'restriction', base: integer ? 'xs:integer' : 'xs:double', minInclusive: min, maxInclusive: max };
+  }
+  if (stats.values.size === 0 || stats.values.size > MAX_ENUMERATION_VALUES) return undefined;
+
+  const values = [...stats.values].sort();
+  return values.length === 1 ? { type: 'simple', value: values[0] } : { type: 'restriction', base: 'xs:string', enumeration: values };
+}
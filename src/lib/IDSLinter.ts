@@ -0,0 +1,308 @@
+// IDS Linter - Diagnostics on an IDS file, with the XML position of each problem
+// Reports what parseIDS would silently drop as well as content that parses but can never match
+import { childElements, childElement, getSchemaFamily } from './IDSParser';
+
+export type IDSDiagnosticSeverity = 'error' | 'warning';
+
+export type IDSDiagnosticCode =
+  | 'dropped-specification'
+  | 'dropped-facet'
+  | 'unknown-element'
+  | 'unknown-entity'
+  | 'invalid-pattern'
+  | 'invalid-bound'
+  | 'contradictory-restriction'
+  | 'duplicate-specification'
+  | 'pset-naming';
+
+export type EntityChecker = (name: string, ifcVersion?: string[]) => boolean;
+
+export interface IDSDiagnostic {
+  severity: IDSDiagnosticSeverity;
+  code: IDSDiagnosticCode;
+  message: string;
+  line: number; // 1-based
+  column: number; // 1-based
+  specification?: string;
+}
+
+interface XmlPosition {
+  line: number;
+  column: number;
+}
+
+const FACET_NAMES = ['entity', 'partOf', 'classification', 'attribute', 'property', 'material'];
+
+const BOUND_FACETS = ['minInclusive', 'maxInclusive', 'minExclusive', 'maxExclusive'];
+
+// Lints the XML source rather than the parsed IDSFile, which no longer holds dropped elements nor positions.
+// Returns no diagnostic for malformed XML, parseIDS reports it.
+export async function lintIDS(xmlString: string): Promise<IDSDiagnostic[]> {
+  const doc = new DOMParser().parseFromString(xmlString, 'text/xml');
+  if (doc.getElementsByTagName('parsererror')[0] || doc.documentElement?.localName !== 'ids') return [];
+
+  const isKnownEntity = await loadEntityChecker();
+
+  const positions = getElementPositions(xmlString, doc);
+  const diagnostics: IDSDiagnostic[] = [];
+  const report = (el: Element, severity: IDSDiagnosticSeverity, code: IDSDiagnosticCode, message: string, specification?: string) => {
+    const position = positions.get(el) || { line: 1, column: 1 };
+    diagnostics.push({ severity, code, message, ...position, specification });
+  };
+
+  const specificationsEl = childElement(doc.documentElement, 'specifications');
+  const specNames = new Set<string>();
+
+  for (const specEl of specificationsEl ? childElements(specificationsEl, 'specification') : []) {
+    const name = specEl.getAttribute('name') || 'Unnamed Specification';
+    const ifcVersion = specEl.getAttribute('ifcVersion')?.split(/\s+/).filter(Boolean);
+
+    if (specNames.has(name)) {
+      report(specEl, 'warning', 'duplicate-specification', `Nom de spécification en double "${name}", les résultats d'audit sont regroupés par nom`, name);
+    }
+    specNames.add(name);
+
+    const applicabilityEl = childElement(specEl, 'applicability');
+    const keptFacets = applicabilityEl ? lintFacets(applicabilityEl, name, ifcVersion, isKnownEntity, report) : 0;
+    if (keptFacets === 0) {
+      report(specEl, 'error', 'dropped-specification', `Spécification "${name}" ignorée: aucune applicabilité valide`, name);
+    }
+
+    const requirementsEl = childElement(specEl, 'requirements');
+    if (requirementsEl) lintFacets(requirementsEl, name, ifcVersion, isKnownEntity, report);
+  }
+
+  for (const restrictionEl of Array.from(doc.getElementsByTagName('*')).filter(el => el.localName === 'restriction')) {
+    lintRestriction(restrictionEl, report);
+  }
+
+  return diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+type Reporter = (el: Element, severity: IDSDiagnosticSeverity, code: IDSDiagnosticCode, message: string, specification?: string) => void;
+
+// Returns the number of facets parseIDS keeps from the container
+function lintFacets(container: Element, specName: string, ifcVersion: string[] | undefined, isKnownEntity: EntityChecker, report: Reporter): number {
+  let kept = 0;
+
+  for (const facetEl of Array.from(container.children)) {
+    const facetName = facetEl.localName;
+    if (!FACET_NAMES.includes(facetName)) {
+      report(facetEl, 'warning', 'unknown-element', `Élément <${facetName}> inconnu, ignoré`, specName);
+      continue;
+    }
+
+    const missing = getMissingParts(facetEl);
+    if (missing) {
+      report(facetEl, 'warning', 'dropped-facet', `Facette ${facetName} ignorée: ${missing} manquant`, specName);
+      continue;
+    }
+    kept++;
+
+    if (facetName === 'entity') {
+      lintEntityNames(childElement(facetEl, 'name')!, specName, ifcVersion, isKnownEntity, report);
+    } else if (facetName === 'partOf') {
+      lintEntityNames(childElement(childElement(facetEl, 'entity')!, 'name')!, specName, ifcVersion, isKnownEntity, report);
+    } else if (facetName === 'property') {
+      lintPropertySetName(childElement(facetEl, 'propertySet')!, specName, report);
+    }
+  }
+
+  return kept;
+}
+
+// Same conditions as the facet parsers of IDSParser
+function getMissingParts(facetEl: Element): string | null {
+  switch (facetEl.localName) {
+    case 'entity':
+    case 'attribute':
+      return hasValue(childElement(facetEl, 'name')) ? null : 'name';
+    case 'property':
+      if (!hasValue(childElement(facetEl, 'propertySet'))) return 'propertySet';
+      return hasValue(childElement(facetEl, 'baseName')) ? null : 'baseName';
+    case 'partOf': {
+      const entityEl = childElement(facetEl, 'entity');
+      return entityEl && hasValue(childElement(entityEl, 'name')) ? null : 'entity/name';
+    }
+    default:
+      return null;
+  }
+}
+
+function hasValue(el: Element | null): boolean {
+  if (!el) return false;
+  return !!(childElement(el, 'simpleValue') || childElement(el, 'restriction') || el.textContent?.trim());
+}
+
+// Literal entity names: simpleValue, enumerations or plain text. Patterns can't be checked against the schema.
+function lintEntityNames(nameEl: Element, specName: string, ifcVersion: string[] | undefined, isKnownEntity: EntityChecker, report: Reporter) {
+  const restriction = childElement(nameEl, 'restriction');
+  const simpleValue = childElement(nameEl, 'simpleValue');
+  const candidates: [Element, string][] = restriction
+    ? childElements(restriction, 'enumeration').map(el => [el, el.getAttribute('value') || ''])
+    : [[simpleValue || nameEl, (simpleValue || nameEl).textContent?.trim() || '']];
+
+  for (const [el, name] of candidates) {
+    if (!isKnownEntity(name, ifcVersion)) {
+      const schemas = ifcVersion && ifcVersion.length > 0 ? ` en ${ifcVersion.join(', ')}` : '';
+      report(el, 'error', 'unknown-entity', `Entité IFC inconnue${schemas} "${name}"`, specName);
+    }
+  }
+}
+
+let entityChecker: Promise<EntityChecker> | null = null;
+
+// web-ifc is loaded on the first call only, so that it stays out of the main bundle.
+// It has an entity constructor per schema, keyed by type code. SchemaNames[index] lists the identifiers of the schema.
+// Without ifcVersion, or when web-ifc supports none of the listed schemas, any supported schema will do.
+export function loadEntityChecker(): Promise<EntityChecker> {
+  entityChecker ??= import('web-ifc').then(WebIFC => (name: string, ifcVersion?: string[]) => {
+    const upper = name.toUpperCase();
+    const typeCode = (WebIFC as Record<string, unknown>)[upper];
+    if (!upper.startsWith('IFC') || typeof typeCode !== 'number') return false;
+
+    const families = (ifcVersion || []).map(getSchemaFamily);
+    const listed = WebIFC.SchemaNames.flatMap((names, index) => (names.some(schema => families.includes(schema)) ? [index] : []));
+    const schemas = listed.length > 0 ? listed : WebIFC.SchemaNames.flatMap((_, index) => [index]);
+    return schemas.some(index => !!WebIFC.Constructors[index]?.[typeCode]);
+  });
+  return entityChecker;
+}
+
+function lintPropertySetName(psetEl: Element, specName: string, report: Reporter) {
+  const simpleValue = childElement(psetEl, 'simpleValue');
+  const name = (simpleValue || psetEl).textContent?.trim() || '';
+  if (childElement(psetEl, 'restriction') || !name) return;
+
+  const prefix = /^(pset|qto)_/i.exec(name);
+  if (!prefix) return;
+
+  const expected = prefix[1].toLowerCase() === 'pset' ? 'Pset_' : 'Qto_';
+  if (!name.startsWith(expected)) {
+    report(simpleValue || psetEl, 'warning', 'pset-naming', `Jeu de propriétés "${name}": le préfixe standard est ${expected} (sensible à la casse)`, specName);
+  } else if (!/^(Pset|Qto)_[A-Za-z0-9]+$/.test(name)) {
+    report(simpleValue || psetEl, 'warning', 'pset-naming', `Jeu de propriétés "${name}": les noms standard sont en PascalCase, sans espace ni séparateur après ${expected}`, specName);
+  }
+}
+
+function lintRestriction(restrictionEl: Element, report: Reporter) {
+  let specEl = restrictionEl.parentElement;
+  while (specEl && specEl.localName !== 'specification') specEl = specEl.parentElement;
+  const specName = specEl?.getAttribute('name') || undefined;
+  const facetValue = (localName: string) => childElement(restrictionEl, localName)?.getAttribute('value') ?? null;
+
+  for (const patternEl of childElements(restrictionEl, 'pattern')) {
+    const pattern = patternEl.getAttribute('value') || '';
+    try {
+      new RegExp(`^(?:${pattern})$`);
+    } catch (e) {
+      report(patternEl, 'error', 'invalid-pattern', `Expression régulière invalide "${pattern}"`, specName);
+    }
+  }
+
+  const bounds: Record<string, number> = {};
+  for (const facetName of BOUND_FACETS) {
+    const raw = facetValue(facetName);
+    if (raw === null) continue;
+    if (raw.trim() === '' || isNaN(Number(raw))) {
+      report(childElement(restrictionEl, facetName)!, 'error', 'invalid-bound', `${facetName} n'est pas un nombre: "${raw}"`, specName);
+      continue;
+    }
+    bounds[facetName] = Number(raw);
+  }
+
+  const min = bounds.minInclusive ?? bounds.minExclusive;
+  const max = bounds.maxInclusive ?? bounds.maxExclusive;
+  const exclusive = bounds.minInclusive === undefined || bounds.maxInclusive === undefined;
+  if (min !== undefined && max !== undefined && (min > max || (min === max && exclusive))) {
+    report(restrictionEl, 'error', 'contradictory-restriction', `Intervalle vide: minimum ${min} ${exclusive ? '≥' : '>'} maximum ${max}, aucune valeur ne peut correspondre`, specName);
+  }
+
+  const length = facetValue('length');
+  const minLength = facetValue('minLength');
+  const maxLength = facetValue('maxLength');
+  if (minLength !== null && maxLength !== null && Number(minLength) > Number(maxLength)) {
+    report(restrictionEl, 'error', 'contradictory-restriction', `minLength ${minLength} > maxLength ${maxLength}, aucune valeur ne peut correspondre`, specName);
+  }
+  if (length !== null && ((minLength !== null && Number(length) < Number(minLength)) || (maxLength !== null && Number(length) > Number(maxLength)))) {
+    report(restrictionEl, 'error', 'contradictory-restriction', `length ${length} en dehors de [minLength, maxLength], aucune valeur ne peut correspondre`, specName);
+  }
+}
+
+// DOMParser keeps no source positions: start tags are located in the source and paired,
+// in document order, with the elements of the parsed document
+function getElementPositions(xmlString: string, doc: Document): Map<Element, XmlPosition> {
+  const starts: XmlPosition[] = [];
+  let line = 1;
+  let lineStart = 0;
+  let i = 0;
+
+  const skipTo = (end: string) => {
+    const index = xmlString.indexOf(end, i);
+    i = index < 0 ? xmlString.length : index + end.length;
+  };
+
+  // Up to the closing '>' of a tag or declaration, ignoring the '>' in quoted attribute values
+  // and in a DOCTYPE internal subset
+  const skipMarkup = () => {
+    let quote: string | null = null;
+    let subsetDepth = 0;
+    for (i++; i < xmlString.length; i++) {
+      const char = xmlString[i];
+      if (quote) {
+        if (char === quote) quote = null;
+      } else if (subsetDepth > 0 && xmlString.startsWith('<!--', i)) {
+        skipTo('-->');
+        i--;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === '[') {
+        subsetDepth++;
+      } else if (char === ']') {
+        subsetDepth--;
+      } else if (char === '>' && subsetDepth <= 0) {
+        i++;
+        return;
+      }
+    }
+  };
+
+  while (i < xmlString.length) {
+    const char = xmlString[i];
+    if (char === '\n') {
+      line++;
+      lineStart = i + 1;
+      i++;
+      continue;
+    }
+    if (char !== '<') {
+      i++;
+      continue;
+    }
+
+    const position = { line, column: i - lineStart + 1 };
+    const from = i;
+    if (xmlString.startsWith('<!--', i)) skipTo('-->');
+    else if (xmlString.startsWith('<![CDATA[', i)) skipTo(']]>');
+    else if (xmlString.startsWith('<?', i)) skipTo('?>');
+    else if (xmlString.startsWith('<!', i) || xmlString.startsWith('</', i)) skipMarkup();
+    else {
+      starts.push(position);
+      skipMarkup();
+    }
+
+    // Skipped sections can span lines
+    for (let j = from; j < i; j++) {
+      if (xmlString[j] === '\n') {
+        line++;
+        lineStart = j + 1;
+      }
+    }
+  }
+
+  const positions = new Map<Element, XmlPosition>();
+  Array.from(doc.getElementsByTagName('*')).forEach((el, index) => {
+    if (starts[index]) positions.set(el, starts[index]);
+  });
+  return positions;
+}
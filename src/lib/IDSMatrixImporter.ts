@@ -0,0 +1,293 @@
+// IDS Matrix Importer - Convert a requirements matrix (Level of Information Need table) from Excel or CSV into an IDSFile
+// One row per required property: Entity, Pset, Property, DataType, Allowed values, Phase
+import readXlsxFile from 'read-excel-file';
+import { IDSFile, IDSSpecification, IDSValue, IDSRestriction, IDSPropertyFacet } from './IDSParser';
+import { loadEntityChecker } from './IDSLinter';
+
+export type MatrixColumn = 'entity' | 'propertySet' | 'property' | 'dataType' | 'allowedValues' | 'phase';
+
+// Column index of each field in the table, null when the table has no such column
+export type MatrixMapping = Record<MatrixColumn, number | null>;
+
+export interface MatrixRow {
+  number: number; // Row number in the spreadsheet, as shown by Excel
+  cells: string[];
+}
+
+export interface MatrixTable {
+  headers: string[];
+  rows: MatrixRow[];
+}
+
+export interface MatrixIssue {
+  row: number;
+  message: string;
+}
+
+export interface MatrixImportOptions {
+  title: string;
+  ifcVersion: string[];
+  phase?: string; // Only rows of this phase; every phase gets its own specifications otherwise
+}
+
+export const MATRIX_COLUMN_LABELS: Record<MatrixColumn, string> = {
+  entity: 'Entité IFC',
+  propertySet: 'Jeu de propriétés',
+  property: 'Propriété',
+  dataType: 'Type de donnée',
+  allowedValues: 'Valeurs autorisées',
+  phase: 'Phase'
+};
+
+// Header names recognized for each column, compared without case and accents. Pset before property: "Property set" contains "property".
+const HEADER_SYNONYMS: [MatrixColumn, string[]][] = [
+  ['propertySet', ['pset', 'property set', 'propertyset', 'jeu de proprietes', 'jeu de propriete', 'groupe de proprietes']],
+  ['entity', ['entity', 'entite', 'ifc class', 'classe ifc', 'classe', 'ifc entity', 'objet', 'element']],
+  ['dataType', ['datatype', 'data type', 'type de donnee', 'type de donnees', 'type']],
+  ['allowedValues', ['allowed values', 'valeurs autorisees', 'valeurs', 'values', 'valeur', 'value', 'domaine']],
+  ['phase', ['phase', 'jalon', 'milestone', 'stage']],
+  ['property', ['property', 'propriete', 'basename', 'nom de propriete', 'parametre', 'attribut']],
+];
+
+const BOOLEAN_LITERALS: Record<string, string> = {
+  true: 'true', vrai: 'true', oui: 'true', yes: 'true',
+  false: 'false', faux: 'false', non: 'false', no: 'false'
+};
+
+const BOUND_FACETS: Record<string, 'minInclusive' | 'minExclusive' | 'maxInclusive' | 'maxExclusive'> = {
+  '>=': 'minInclusive', '≥': 'minInclusive', '>': 'minExclusive',
+  '<=': 'maxInclusive', '≤': 'maxInclusive', '<': 'maxExclusive'
+};
+
+// Numeric IFC data types, by the XSD base of their values. Other IFC...MEASURE types are reals too.
+const INTEGER_DATA_TYPES = ['IFCINTEGER', 'IFCPOSITIVEINTEGER', 'IFCCOUNTMEASURE'];
+const REAL_DATA_TYPES = ['IFCREAL', 'IFCNUMERICMEASURE', 'IFCPARAMETERVALUE'];
+
+const normalizeHeader = (header: string) =>
+  header.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[_\-.]+/g, ' ').trim();
+
+// Reads the first sheet of an .xlsx file, or a CSV file (separator , ; or tab). The header is the first non-empty row.
+export async function readMatrixFile(file: File): Promise<MatrixTable> {
+  const grid = /\.xlsx$/i.test(file.name)
+    ? (await readXlsxFile(file)).map(row => row.map(cell => (cell === null || cell === undefined ? '' : cell instanceof Date ? cell.toISOString().slice(0, 10) : String(cell).trim())))
+    : parseCSV(await file.text());
+
+  const headerIndex = grid.findIndex(row => row.some(cell => cell !== ''));
+  if (headerIndex < 0) throw new Error('Le fichier ne contient aucune ligne');
+
+  return {
+    headers: grid[headerIndex],
+    rows: grid
+      .map((cells, index) => ({ number: index + 1, cells }))
+      .slice(headerIndex + 1)
+      .filter(row => row.cells.some(cell => cell !== ''))
+  };
+}
+
+function parseCSV(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0];
+  const delimiter = [';', '\t', ','].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell.trim());
+    rows.push(row);
+  }
+  return rows;
+}
+
+// First guess of the column mapping from the header names, to be confirmed by the user
+export function guessMatrixMapping(headers: string[]): MatrixMapping {
+  const mapping: MatrixMapping = { entity: null, propertySet: null, property: null, dataType: null, allowedValues: null, phase: null };
+  const used = new Set<number>();
+  const normalized = headers.map(normalizeHeader);
+
+  for (const [column, synonyms] of HEADER_SYNONYMS) {
+    // Exact names first, then headers starting with a synonym ("Entité IFC", "Valeurs autorisées (liste)")
+    const index = [
+      normalized.findIndex((header, i) => !used.has(i) && synonyms.includes(header)),
+      normalized.findIndex((header, i) => !used.has(i) && synonyms.some(synonym => header.startsWith(synonym)))
+    ].find(i => i >= 0);
+    if (index !== undefined) {
+      mapping[column] = index;
+      used.add(index);
+    }
+  }
+
+  return mapping;
+}
+
+export function getMatrixPhases(table: MatrixTable, mapping: MatrixMapping): string[] {
+  if (mapping.phase === null) return [];
+  return [...new Set(table.rows.map(row => row.cells[mapping.phase!] || '').filter(Boolean))].sort();
+}
+
+// One specification per entity (and per phase when no phase is selected), one required property facet per row
+export async function convertMatrix(table: MatrixTable, mapping: MatrixMapping, options: MatrixImportOptions): Promise<{ ids: IDSFile, issues: MatrixIssue[] }> {
+  const issues: MatrixIssue[] = [];
+  const specifications = new Map<string, IDSSpecification>();
+  const cell = (row: MatrixRow, column: MatrixColumn) => (mapping[column] === null ? '' : row.cells[mapping[column]!] || '');
+
+  if (mapping.entity === null || mapping.propertySet === null || mapping.property === null) {
+    throw new Error('Les colonnes Entité IFC, Jeu de propriétés et Propriété sont obligatoires');
+  }
+  const isKnownEntity = await loadEntityChecker();
+
+  for (const row of table.rows) {
+    const phase = cell(row, 'phase');
+    if (options.phase && phase !== options.phase) continue;
+
+    const entity = cell(row, 'entity').toUpperCase();
+    const propertySet = cell(row, 'propertySet');
+    const property = cell(row, 'property');
+
+    if (!entity || !propertySet || !property) {
+      const missing = [!entity && 'entité', !propertySet && 'jeu de propriétés', !property && 'propriété'].filter(Boolean).join(', ');
+      issues.push({ row: row.number, message: `Ligne ignorée: ${missing} manquant(e)` });
+      continue;
+    }
+    if (!isKnownEntity(entity, options.ifcVersion)) {
+      const schemas = options.ifcVersion.length > 0 ? ` en ${options.ifcVersion.join(', ')}` : '';
+      issues.push({ row: row.number, message: `Ligne ignorée: entité IFC inconnue${schemas} "${cell(row, 'entity')}"` });
+      continue;
+    }
+
+    let dataType: string | undefined = cell(row, 'dataType').replace(/\s+/g, '').toUpperCase() || undefined;
+    if (dataType && !/^IFC[A-Z0-9]+$/.test(dataType)) {
+      issues.push({ row: row.number, message: `Type de donnée "${cell(row, 'dataType')}" non reconnu, ignoré (attendu IfcLabel, IfcReal...)` });
+      dataType = undefined;
+    }
+
+    const parsedValue = parseAllowedValues(cell(row, 'allowedValues'), dataType);
+    if (parsedValue === null) {
+      issues.push({ row: row.number, message: `Ligne ignorée: valeurs autorisées illisibles "${cell(row, 'allowedValues')}"` });
+      continue;
+    }
+
+    const specKey = options.phase || !phase ? entity : `${entity}\n${phase}`;
+    let spec = specifications.get(specKey);
+    if (!spec) {
+      spec = {
+        name: specKey.replace('\n', ' - '),
+        description: phase ? `Phase ${phase}` : undefined,
+        ifcVersion: options.ifcVersion,
+        cardinality: 'optional',
+        applicability: [{ type: 'entity', name: { type: 'simple', value: entity } }],
+        requirements: []
+      };
+      specifications.set(specKey, spec);
+    }
+
+    const duplicate = spec.requirements.some(req => {
+      const facet = req.facet as IDSPropertyFacet;
+      return facet.propertySet.type === 'simple' && facet.propertySet.value === propertySet &&
+        facet.baseName.type === 'simple' && facet.baseName.value === property;
+    });
+    if (duplicate) {
+      issues.push({ row: row.number, message: `Ligne ignorée: ${propertySet}.${property} déjà demandé pour ${spec.name}` });
+      continue;
+    }
+
+    spec.requirements.push({
+      facet: {
+        type: 'property',
+        propertySet: { type: 'simple', value: propertySet },
+        baseName: { type: 'simple', value: property },
+        dataType,
+        value: parsedValue
+      },
+      cardinality: 'required',
+      minOccurs: 1,
+      maxOccurs: 'unbounded'
+    });
+  }
+
+  return {
+    ids: { title: options.title, specifications: [...specifications.values()] },
+    issues
+  };
+}
+
+// Allowed values cell: empty (any value), a single value, a list (; | or line breaks), a range "0..100" or a bound ">= 0".
+// Numbers may use a decimal comma. Returns null when the cell can't be read.
+function parseAllowedValues(text: string, dataType?: string): IDSValue | undefined | null {
+  const value = text.trim();
+  if (!value) return undefined;
+
+  const numericBase = getNumericBase(dataType);
+  const base = numericBase || 'xs:double';
+  const isValidNumber = (n: number) => base !== 'xs:integer' || Number.isInteger(n);
+
+  const range = /^(-?\d+(?:[.,]\d+)?)\s*\.\.\s*(-?\d+(?:[.,]\d+)?)$/.exec(value);
+  if (range) {
+    const [min, max] = [toNumber(range[1]), toNumber(range[2])];
+    return min <= max && isValidNumber(min) && isValidNumber(max) ? { type: 'restriction', base, minInclusive: min, maxInclusive: max } : null;
+  }
+
+  const bound = /^(>=|<=|>|<|≥|≤)\s*(-?\d+(?:[.,]\d+)?)$/.exec(value);
+  if (bound) {
+    const limit = toNumber(bound[2]);
+    if (!isValidNumber(limit)) return null;
+    const restriction: IDSRestriction = { type: 'restriction', base };
+    restriction[BOUND_FACETS[bound[1]]] = limit;
+    return restriction;
+  }
+  if (/^[<>≥≤]/.test(value)) return null;
+
+  const literal = (item: string) => {
+    if (dataType === 'IFCBOOLEAN') return BOOLEAN_LITERALS[item.toLowerCase()] ?? item;
+    if (!numericBase) return item;
+    const number = /^-?\d+(?:[.,]\d+)?$/.test(item) ? toNumber(item) : NaN;
+    return !isNaN(number) && isValidNumber(number) ? String(number) : null;
+  };
+  const items: string[] = [];
+  for (const item of value.split(/\s*[;|\n]\s*/).filter(Boolean)) {
+    const parsed = literal(item);
+    if (parsed === null) return null;
+    items.push(parsed);
+  }
+  if (items.length > 1) return { type: 'restriction', base: numericBase || 'xs:string', enumeration: items };
+  return { type: 'simple', value: items[0] };
+}
+
+// XSD base of the values of a numeric IFC data type, null for text, booleans or an unknown type
+function getNumericBase(dataType?: string): 'xs:integer' | 'xs:double' | null {
+  if (!dataType) return null;
+  if (INTEGER_DATA_TYPES.includes(dataType)) return 'xs:integer';
+  return REAL_DATA_TYPES.includes(dataType) || dataType.endsWith('MEASURE') ? 'xs:double' : null;
+}
+
+const toNumber = (text: string) => Number(text.replace(',', '.'));
@@ -6,15 +6,22 @@ export interface IDSSimpleValue {
   value: string;
 }
 
+// XSD restriction facets. Patterns and enumerations list alternatives,
+// every other facet must hold as well (XSD combines facet kinds with AND)
 export interface IDSRestriction {
   type: 'restriction';
   base: string;
-  pattern?: string;
+  pattern?: string[];
   enumeration?: string[];
+  length?: number;
   minLength?: number;
   maxLength?: number;
   minInclusive?: number;
   maxInclusive?: number;
+  minExclusive?: number;
+  maxExclusive?: number;
+  totalDigits?: number;
+  fractionDigits?: number;
 }
 
 export type IDSValue = IDSSimpleValue | IDSRestriction;
@@ -62,10 +69,13 @@ export interface IDSPartOfFacet extends IDSFacet {
 
 export type IDSAnyFacet = IDSEntityFacet | IDSClassificationFacet | IDSAttributeFacet | IDSPropertyFacet | IDSMaterialFacet | IDSPartOfFacet;
 
+export type IDSCardinality = 'required' | 'optional' | 'prohibited';
+
 export interface IDSRequirement {
   facet: IDSAnyFacet;
+  cardinality: IDSCardinality;
   minOccurs: number; // 0 = optional, 1 = required
-  maxOccurs: number | 'unbounded';
+  maxOccurs: number | 'unbounded'; // 0 = prohibited
   instructions?: string;
 }
 
@@ -74,6 +84,7 @@ export interface IDSSpecification {
   description?: string;
   instructions?: string;
   ifcVersion?: string[];
+  cardinality: IDSCardinality; // required = at least one applicable element, prohibited = none
   applicability: IDSAnyFacet[];
   requirements: IDSRequirement[];
 }
@@ -87,33 +98,64 @@ export interface IDSFile {
   specifications: IDSSpecification[];
 }
 
+// Namespace-agnostic DOM helpers: IDS 0.9.x files often have no namespace,
+// IDS 1.0 files use a default namespace or the ids:/xs: prefixes
+export function childElements(el: Element, localName: string): Element[] {
+  return Array.from(el.children).filter(child => child.localName === localName);
+}
+
+export function childElement(el: Element, localName: string): Element | null {
+  return childElements(el, localName)[0] || null;
+}
+
+function childText(el: Element | null, localName: string): string | undefined {
+  if (!el) return undefined;
+  return childElement(el, localName)?.textContent?.trim() || undefined;
+}
+
+// IDS 1.0 `cardinality` attribute, falling back to IDS 0.9.x minOccurs/maxOccurs
+function parseCardinality(el: Element, fallback: IDSCardinality): IDSCardinality {
+  const cardinality = el.getAttribute('cardinality');
+  if (cardinality === 'required' || cardinality === 'optional' || cardinality === 'prohibited') {
+    return cardinality;
+  }
+
+  const minOccurs = el.getAttribute('minOccurs');
+  const maxOccurs = el.getAttribute('maxOccurs');
+  if (maxOccurs === '0') return 'prohibited';
+  if (minOccurs !== null) return parseInt(minOccurs, 10) === 0 ? 'optional' : 'required';
+
+  return fallback;
+}
+
 // Parse IDS XML string
 export function parseIDS(xmlString: string): IDSFile {
   const parser = new DOMParser();
   const doc = parser.parseFromString(xmlString, 'text/xml');
   
   // Check for parse errors
-  const parseError = doc.querySelector('parsererror');
+  const parseError = doc.getElementsByTagName('parsererror')[0];
   if (parseError) {
     throw new Error('Invalid XML: ' + parseError.textContent);
   }
 
-  const idsElement = doc.querySelector('ids');
-  if (!idsElement) {
+  const idsElement = doc.documentElement;
+  if (!idsElement || idsElement.localName !== 'ids') {
     throw new Error('Invalid IDS: No <ids> root element found');
   }
 
   // Parse info section
-  const info = idsElement.querySelector('info');
-  const title = info?.querySelector('title')?.textContent || 'Untitled IDS';
-  const version = info?.querySelector('version')?.textContent || undefined;
-  const author = info?.querySelector('author')?.textContent || undefined;
-  const date = info?.querySelector('date')?.textContent || undefined;
-  const purpose = info?.querySelector('purpose')?.textContent || undefined;
+  const info = childElement(idsElement, 'info');
+  const title = childText(info, 'title') || 'Untitled IDS';
+  const version = childText(info, 'version');
+  const author = childText(info, 'author');
+  const date = childText(info, 'date');
+  const purpose = childText(info, 'purpose');
 
   // Parse specifications
   const specifications: IDSSpecification[] = [];
-  const specElements = idsElement.querySelectorAll('specifications > specification');
+  const specificationsEl = childElement(idsElement, 'specifications');
+  const specElements = specificationsEl ? childElements(specificationsEl, 'specification') : [];
   
   specElements.forEach((specEl) => {
     const spec = parseSpecification(specEl);
@@ -139,17 +181,20 @@ function parseSpecification(specEl: Element): IDSSpecification | null {
   
   // Parse ifcVersion
   const ifcVersionAttr = specEl.getAttribute('ifcVersion');
-  const ifcVersion = ifcVersionAttr ? ifcVersionAttr.split(' ') : undefined;
+  const ifcVersion = ifcVersionAttr ? ifcVersionAttr.split(/\s+/).filter(Boolean) : undefined;
 
   // Parse applicability
-  const applicabilityEl = specEl.querySelector('applicability');
+  const applicabilityEl = childElement(specEl, 'applicability');
   const applicability: IDSAnyFacet[] = [];
   if (applicabilityEl) {
     applicability.push(...parseFacets(applicabilityEl));
   }
 
+  // Specification cardinality: on <specification> in IDS 0.9.x, on <applicability> in IDS 1.0
+  const cardinality = parseCardinality(specEl, applicabilityEl ? parseCardinality(applicabilityEl, 'optional') : 'optional');
+
   // Parse requirements
-  const requirementsEl = specEl.querySelector('requirements');
+  const requirementsEl = childElement(specEl, 'requirements');
   const requirements: IDSRequirement[] = [];
   if (requirementsEl) {
     requirements.push(...parseRequirements(requirementsEl));
@@ -165,49 +210,31 @@ function parseSpecification(specEl: Element): IDSSpecification | null {
     description,
     instructions,
     ifcVersion,
+    cardinality,
     applicability,
     requirements
   };
 }
 
+// Facet parsers in document order of the IDS 1.0 schema, the order serializeIDS writes them in
+const FACET_PARSERS: [string, (el: Element) => IDSAnyFacet | null][] = [
+  ['entity', parseEntityFacet],
+  ['partOf', parsePartOfFacet],
+  ['classification', parseClassificationFacet],
+  ['attribute', parseAttributeFacet],
+  ['property', parsePropertyFacet],
+  ['material', parseMaterialFacet],
+];
+
 function parseFacets(container: Element): IDSAnyFacet[] {
   const facets: IDSAnyFacet[] = [];
 
-  // Entity facet
-  container.querySelectorAll(':scope > entity').forEach((el) => {
-    const facet = parseEntityFacet(el);
-    if (facet) facets.push(facet);
-  });
-
-  // Classification facet
-  container.querySelectorAll(':scope > classification').forEach((el) => {
-    const facet = parseClassificationFacet(el);
-    if (facet) facets.push(facet);
-  });
-
-  // Attribute facet
-  container.querySelectorAll(':scope > attribute').forEach((el) => {
-    const facet = parseAttributeFacet(el);
-    if (facet) facets.push(facet);
-  });
-
-  // Property facet
-  container.querySelectorAll(':scope > property').forEach((el) => {
-    const facet = parsePropertyFacet(el);
-    if (facet) facets.push(facet);
-  });
-
-  // Material facet
-  container.querySelectorAll(':scope > material').forEach((el) => {
-    const facet = parseMaterialFacet(el);
-    if (facet) facets.push(facet);
-  });
-
-  // PartOf facet
-  container.querySelectorAll(':scope > partOf').forEach((el) => {
-    const facet = parsePartOfFacet(el);
-    if (facet) facets.push(facet);
-  });
+  for (const [localName, parseFacet] of FACET_PARSERS) {
+    childElements(container, localName).forEach((el) => {
+      const facet = parseFacet(el);
+      if (facet) facets.push(facet);
+    });
+  }
 
   return facets;
 }
@@ -215,39 +242,37 @@ function parseFacets(container: Element): IDSAnyFacet[] {
 function parseRequirements(container: Element): IDSRequirement[] {
   const requirements: IDSRequirement[] = [];
   
-  const parseReq = (el: Element, facet: IDSAnyFacet | null) => {
-    if (!facet) return;
-    
-    const minOccurs = el.getAttribute('minOccurs');
-    const maxOccurs = el.getAttribute('maxOccurs');
-    const instructions = el.getAttribute('instructions') || undefined;
-
-    requirements.push({
-      facet,
-      minOccurs: minOccurs ? parseInt(minOccurs, 10) : 1,
-      maxOccurs: maxOccurs === 'unbounded' ? 'unbounded' : (maxOccurs ? parseInt(maxOccurs, 10) : 'unbounded'),
-      instructions
+  for (const [localName, parseFacet] of FACET_PARSERS) {
+    childElements(container, localName).forEach((el) => {
+      const facet = parseFacet(el);
+      if (!facet) return;
+
+      const cardinality = parseCardinality(el, 'required');
+      const minOccurs = el.getAttribute('minOccurs');
+      const maxOccurs = el.getAttribute('maxOccurs');
+      const instructions = el.getAttribute('instructions') || undefined;
+
+      requirements.push({
+        facet,
+        cardinality,
+        minOccurs: minOccurs !== null ? parseInt(minOccurs, 10) : (cardinality === 'required' ? 1 : 0),
+        maxOccurs: maxOccurs !== null && maxOccurs !== 'unbounded' ? parseInt(maxOccurs, 10) : (cardinality === 'prohibited' ? 0 : 'unbounded'),
+        instructions
+      });
     });
-  };
-
-  container.querySelectorAll(':scope > entity').forEach((el) => parseReq(el, parseEntityFacet(el)));
-  container.querySelectorAll(':scope > classification').forEach((el) => parseReq(el, parseClassificationFacet(el)));
-  container.querySelectorAll(':scope > attribute').forEach((el) => parseReq(el, parseAttributeFacet(el)));
-  container.querySelectorAll(':scope > property').forEach((el) => parseReq(el, parsePropertyFacet(el)));
-  container.querySelectorAll(':scope > material').forEach((el) => parseReq(el, parseMaterialFacet(el)));
-  container.querySelectorAll(':scope > partOf').forEach((el) => parseReq(el, parsePartOfFacet(el)));
+  }
 
   return requirements;
 }
 
 function parseEntityFacet(el: Element): IDSEntityFacet | null {
-  const nameEl = el.querySelector(':scope > name');
+  const nameEl = childElement(el, 'name');
   if (!nameEl) return null;
 
   const name = parseValue(nameEl);
   if (!name) return null;
 
-  const predefinedTypeEl = el.querySelector(':scope > predefinedType');
+  const predefinedTypeEl = childElement(el, 'predefinedType');
   const predefinedType = predefinedTypeEl ? parseValue(predefinedTypeEl) : undefined;
 
   return {
@@ -258,8 +283,8 @@ function parseEntityFacet(el: Element): IDSEntityFacet | null {
 }
 
 function parseClassificationFacet(el: Element): IDSClassificationFacet | null {
-  const systemEl = el.querySelector(':scope > system');
-  const valueEl = el.querySelector(':scope > value');
+  const systemEl = childElement(el, 'system');
+  const valueEl = childElement(el, 'value');
 
   return {
     type: 'classification',
@@ -269,13 +294,13 @@ function parseClassificationFacet(el: Element): IDSClassificationFacet | null {
 }
 
 function parseAttributeFacet(el: Element): IDSAttributeFacet | null {
-  const nameEl = el.querySelector(':scope > name');
+  const nameEl = childElement(el, 'name');
   if (!nameEl) return null;
 
   const name = parseValue(nameEl);
   if (!name) return null;
 
-  const valueEl = el.querySelector(':scope > value');
+  const valueEl = childElement(el, 'value');
 
   return {
     type: 'attribute',
@@ -285,8 +310,8 @@ function parseAttributeFacet(el: Element): IDSAttributeFacet | null {
 }
 
 function parsePropertyFacet(el: Element): IDSPropertyFacet | null {
-  const propertySetEl = el.querySelector(':scope > propertySet');
-  const baseNameEl = el.querySelector(':scope > baseName');
+  const propertySetEl = childElement(el, 'propertySet');
+  const baseNameEl = childElement(el, 'baseName');
   
   if (!propertySetEl || !baseNameEl) return null;
 
@@ -295,7 +320,7 @@ function parsePropertyFacet(el: Element): IDSPropertyFacet | null {
   
   if (!propertySet || !baseName) return null;
 
-  const valueEl = el.querySelector(':scope > value');
+  const valueEl = childElement(el, 'value');
   const dataType = el.getAttribute('dataType') || undefined;
 
   return {
@@ -308,7 +333,7 @@ function parsePropertyFacet(el: Element): IDSPropertyFacet | null {
 }
 
 function parseMaterialFacet(el: Element): IDSMaterialFacet | null {
-  const valueEl = el.querySelector(':scope > value');
+  const valueEl = childElement(el, 'value');
 
   return {
     type: 'material',
@@ -317,11 +342,11 @@ function parseMaterialFacet(el: Element): IDSMaterialFacet | null {
 }
 
 function parsePartOfFacet(el: Element): IDSPartOfFacet | null {
-  const entityEl = el.querySelector(':scope > entity');
+  const entityEl = childElement(el, 'entity');
   if (!entityEl) return null;
 
   // PartOf entity is a nested element with name
-  const nameEl = entityEl.querySelector(':scope > name');
+  const nameEl = childElement(entityEl, 'name');
   if (!nameEl) return null;
 
   const entity = parseValue(nameEl);
@@ -338,7 +363,7 @@ function parsePartOfFacet(el: Element): IDSPartOfFacet | null {
 
 function parseValue(el: Element): IDSValue | undefined {
   // Check for simpleValue
-  const simpleValue = el.querySelector(':scope > simpleValue');
+  const simpleValue = childElement(el, 'simpleValue');
   if (simpleValue) {
     return {
       type: 'simple',
@@ -347,39 +372,35 @@ function parseValue(el: Element): IDSValue | undefined {
   }
 
   // Check for restriction
-  const restriction = el.querySelector(':scope > restriction');
+  const restriction = childElement(el, 'restriction');
   if (restriction) {
     const base = restriction.getAttribute('base') || 'xs:string';
     const result: IDSRestriction = { type: 'restriction', base };
 
-    const pattern = restriction.querySelector(':scope > pattern');
-    if (pattern) {
-      result.pattern = pattern.getAttribute('value') || undefined;
+    const patterns = childElements(restriction, 'pattern');
+    if (patterns.length > 0) {
+      result.pattern = patterns.map(p => p.getAttribute('value') || '');
     }
 
-    const enumerations = restriction.querySelectorAll(':scope > enumeration');
+    const enumerations = childElements(restriction, 'enumeration');
     if (enumerations.length > 0) {
-      result.enumeration = Array.from(enumerations).map(e => e.getAttribute('value') || '');
-    }
-
-    const minLength = restriction.querySelector(':scope > minLength');
-    if (minLength) {
-      result.minLength = parseInt(minLength.getAttribute('value') || '0', 10);
-    }
-
-    const maxLength = restriction.querySelector(':scope > maxLength');
-    if (maxLength) {
-      result.maxLength = parseInt(maxLength.getAttribute('value') || '0', 10);
+      result.enumeration = enumerations.map(e => e.getAttribute('value') || '');
     }
 
-    const minInclusive = restriction.querySelector(':scope > minInclusive');
-    if (minInclusive) {
-      result.minInclusive = parseFloat(minInclusive.getAttribute('value') || '0');
+    const integerFacets = ['length', 'minLength', 'maxLength', 'totalDigits', 'fractionDigits'] as const;
+    for (const facetName of integerFacets) {
+      const facetEl = childElement(restriction, facetName);
+      if (facetEl) {
+        result[facetName] = parseInt(facetEl.getAttribute('value') || '0', 10);
+      }
     }
 
-    const maxInclusive = restriction.querySelector(':scope > maxInclusive');
-    if (maxInclusive) {
-      result.maxInclusive = parseFloat(maxInclusive.getAttribute('value') || '0');
+    const boundFacets = ['minInclusive', 'maxInclusive', 'minExclusive', 'maxExclusive'] as const;
+    for (const facetName of boundFacets) {
+      const facetEl = childElement(restriction, facetName);
+      if (facetEl) {
+        result[facetName] = parseFloat(facetEl.getAttribute('value') || '0');
+      }
     }
 
     return result;
@@ -402,19 +423,41 @@ export function getValueDescription(value: IDSValue | undefined): string {
     return value.value;
   }
   
-  if (value.enumeration) {
-    return value.enumeration.join(' | ');
-  }
-  
-  if (value.pattern) {
-    return `pattern: ${value.pattern}`;
-  }
-  
   const parts: string[] = [];
+  if (value.enumeration) parts.push(value.enumeration.join(' | '));
+  if (value.pattern) parts.push(`pattern: ${value.pattern.join(' | ')}`);
+  if (value.length !== undefined) parts.push(`length: ${value.length}`);
   if (value.minLength !== undefined) parts.push(`min length: ${value.minLength}`);
   if (value.maxLength !== undefined) parts.push(`max length: ${value.maxLength}`);
   if (value.minInclusive !== undefined) parts.push(`>= ${value.minInclusive}`);
+  if (value.minExclusive !== undefined) parts.push(`> ${value.minExclusive}`);
   if (value.maxInclusive !== undefined) parts.push(`<= ${value.maxInclusive}`);
+  if (value.maxExclusive !== undefined) parts.push(`< ${value.maxExclusive}`);
+  if (value.totalDigits !== undefined) parts.push(`total digits: ${value.totalDigits}`);
+  if (value.fractionDigits !== undefined) parts.push(`fraction digits: ${value.fractionDigits}`);
   
   return parts.length > 0 ? parts.join(', ') : 'restricted';
 }
+
+// Schema family of an IFC schema identifier: IFC4X3_ADD2 and IFC4X3 are both IFC4X3, IFC4_ADD2 is IFC4
+export function getSchemaFamily(schema: string): string {
+  const upper = schema.trim().toUpperCase();
+  const match = /^IFC(2X3|4X3|4)/.exec(upper);
+  return match ? `IFC${match[1]}` : upper;
+}
+
+// Values of the ifcVersion attribute allowed by the IDS 1.0 schema
+export const IDS_IFC_VERSIONS = ['IFC2X3', 'IFC4', 'IFC4X3_ADD2'];
+
+// ifcVersion value for a model schema, e.g. IFC4X3 -> IFC4X3_ADD2. Null for a schema IDS 1.0 doesn't list.
+export function toIDSIfcVersion(schema: string): string | null {
+  const family = getSchemaFamily(schema);
+  return IDS_IFC_VERSIONS.find(version => getSchemaFamily(version) === family) || null;
+}
+
+// A specification without ifcVersion (optional before IDS 1.0) applies to every schema
+export function specificationTargetsSchema(spec: IDSSpecification, schema: string): boolean {
+  if (!spec.ifcVersion || spec.ifcVersion.length === 0) return true;
+  const family = getSchemaFamily(schema);
+  return spec.ifcVersion.some(version => getSchemaFamily(version) === family);
+}
@@ -0,0 +1,201 @@
+// IDS Serializer - Write an IDSFile back to IDS 1.0 XML
+// parseIDS(serializeIDS(ids)) gives back the same IDSFile for IDS 1.0 files. IDS 0.9 requirement
+// minOccurs/maxOccurs are written as the cardinality they stand for, and come back as the minOccurs/maxOccurs
+// of that cardinality. A specification or requirement that IDS 1.0 cannot express is rejected with an error.
+import {
+  IDSFile,
+  IDSSpecification,
+  IDSAnyFacet,
+  IDSRequirement,
+  IDSValue,
+  IDSCardinality,
+  IDS_IFC_VERSIONS
+} from './IDSParser';
+
+const IDS_NAMESPACE = 'http://standards.buildingsmart.org/IDS';
+const XS_NAMESPACE = 'http://www.w3.org/2001/XMLSchema';
+const XSI_NAMESPACE = 'http://www.w3.org/2001/XMLSchema-instance';
+const IDS_SCHEMA_LOCATION = 'http://standards.buildingsmart.org/IDS/1.0/ids.xsd';
+
+// Facet order of the IDS 1.0 applicability and requirements sequences
+const FACET_ORDER: IDSAnyFacet['type'][] = ['entity', 'partOf', 'classification', 'attribute', 'property', 'material'];
+
+// Specification cardinality is written on <applicability> as in IDS 1.0
+const SPECIFICATION_OCCURS: Record<IDSCardinality, string> = {
+  required: 'minOccurs="1" maxOccurs="unbounded"',
+  optional: 'minOccurs="0" maxOccurs="unbounded"',
+  prohibited: 'minOccurs="0" maxOccurs="0"'
+};
+
+export function serializeIDS(ids: IDSFile): string {
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<ids:ids xmlns:ids="${IDS_NAMESPACE}" xmlns:xs="${XS_NAMESPACE}" xmlns:xsi="${XSI_NAMESPACE}" xsi:schemaLocation="${IDS_NAMESPACE} ${IDS_SCHEMA_LOCATION}">`,
+    '  <ids:info>',
+    `    <ids:title>${escapeXml(ids.title)}</ids:title>`
+  ];
+
+  // Same order as the IDS 1.0 info sequence
+  if (ids.version) lines.push(`    <ids:version>${escapeXml(ids.version)}</ids:version>`);
+  if (ids.author) lines.push(`    <ids:author>${escapeXml(ids.author)}</ids:author>`);
+  if (ids.date) lines.push(`    <ids:date>${escapeXml(ids.date)}</ids:date>`);
+  if (ids.purpose) lines.push(`    <ids:purpose>${escapeXml(ids.purpose)}</ids:purpose>`);
+
+  lines.push('  </ids:info>', '  <ids:specifications>');
+  ids.specifications.forEach(spec => lines.push(...serializeSpecification(spec, '    ')));
+  lines.push('  </ids:specifications>', '</ids:ids>');
+
+  return lines.join('\n') + '\n';
+}
+
+// Saves the file through a browser download
+export function downloadIDS(ids: IDSFile) {
+  const blob = new Blob([serializeIDS(ids)], { type: 'application/xml' });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${ids.title.replace(/[^\w-]+/g, '_') || 'specifications'}.ids`;
+  a.click();
+  window.URL.revokeObjectURL(url);
+}
+
+function serializeSpecification(spec: IDSSpecification, indent: string): string[] {
+  // ifcVersion is required by IDS 1.0 but optional in IDS 0.9. A missing one is not invented, the specification is rejected.
+  if (!spec.ifcVersion || spec.ifcVersion.length === 0) {
+    throw new Error(`Specification "${spec.name}": ifcVersion is required in IDS 1.0 (${IDS_IFC_VERSIONS.join(', ')})`);
+  }
+  const invalid = spec.ifcVersion.filter(version => !IDS_IFC_VERSIONS.includes(version));
+  if (invalid.length > 0) {
+    throw new Error(`Specification "${spec.name}": ifcVersion ${invalid.join(', ')} is not an IDS 1.0 value (${IDS_IFC_VERSIONS.join(', ')})`);
+  }
+
+  const attributes = [
+    attribute('name', spec.name),
+    attribute('ifcVersion', spec.ifcVersion.join(' ')),
+    spec.description ? attribute('description', spec.description) : '',
+    spec.instructions ? attribute('instructions', spec.instructions) : ''
+  ].join('');
+
+  const lines = [
+    `${indent}<ids:specification${attributes}>`,
+    `${indent}  <ids:applicability ${SPECIFICATION_OCCURS[spec.cardinality]}>`
+  ];
+  sortFacets(spec.applicability, facet => facet).forEach(facet => {
+    lines.push(...serializeFacet(facet, '', `${indent}    `));
+  });
+  lines.push(`${indent}  </ids:applicability>`);
+
+  if (spec.requirements.length > 0) {
+    lines.push(`${indent}  <ids:requirements>`);
+    sortFacets(spec.requirements, requirement => requirement.facet).forEach(requirement => {
+      lines.push(...serializeFacet(requirement.facet, requirementAttributes(requirement, spec.name), `${indent}    `));
+    });
+    lines.push(`${indent}  </ids:requirements>`);
+  }
+
+  lines.push(`${indent}</ids:specification>`);
+  return lines;
+}
+
+// Entity facets have no cardinality in IDS 1.0, an entity requirement is always required.
+// An optional or prohibited one (IDS 0.9 minOccurs/maxOccurs) would be read back as required, so it is not written.
+function requirementAttributes(requirement: IDSRequirement, specName: string): string {
+  if (requirement.facet.type === 'entity' && requirement.cardinality !== 'required') {
+    throw new Error(`Specification "${specName}": ${requirement.cardinality} entity requirement cannot be written in IDS 1.0, where it is always required`);
+  }
+  const cardinality = requirement.facet.type !== 'entity' ? attribute('cardinality', requirement.cardinality) : '';
+  const instructions = requirement.instructions ? attribute('instructions', requirement.instructions) : '';
+  return cardinality + instructions;
+}
+
+// Stable sort into the schema order, facets of the same type keep their relative order
+function sortFacets<T>(items: T[], getFacet: (item: T) => IDSAnyFacet): T[] {
+  return items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) =>
+      FACET_ORDER.indexOf(getFacet(a.item).type) - FACET_ORDER.indexOf(getFacet(b.item).type) || a.index - b.index
+    )
+    .map(({ item }) => item);
+}
+
+function serializeFacet(facet: IDSAnyFacet, attributes: string, indent: string): string[] {
+  const children: string[] = [];
+  const inner = `${indent}  `;
+
+  switch (facet.type) {
+    case 'entity':
+      children.push(...serializeValue('name', facet.name, inner));
+      if (facet.predefinedType) children.push(...serializeValue('predefinedType', facet.predefinedType, inner));
+      break;
+    case 'partOf':
+      if (facet.relation) attributes = attribute('relation', facet.relation) + attributes;
+      children.push(`${inner}<ids:entity>`, ...serializeValue('name', facet.entity, `${inner}  `), `${inner}</ids:entity>`);
+      break;
+    case 'classification':
+      // system is required by IDS 1.0, a classification facet without one can only come from IDS 0.9
+      if (facet.value) children.push(...serializeValue('value', facet.value, inner));
+      if (facet.system) children.push(...serializeValue('system', facet.system, inner));
+      break;
+    case 'attribute':
+      children.push(...serializeValue('name', facet.name, inner));
+      if (facet.value) children.push(...serializeValue('value', facet.value, inner));
+      break;
+    case 'property':
+      if (facet.dataType) attributes = attribute('dataType', facet.dataType) + attributes;
+      children.push(...serializeValue('propertySet', facet.propertySet, inner));
+      children.push(...serializeValue('baseName', facet.baseName, inner));
+      if (facet.value) children.push(...serializeValue('value', facet.value, inner));
+      break;
+    case 'material':
+      if (facet.value) children.push(...serializeValue('value', facet.value, inner));
+      break;
+  }
+
+  if (children.length === 0) return [`${indent}<ids:${facet.type}${attributes}/>`];
+  return [`${indent}<ids:${facet.type}${attributes}>`, ...children, `${indent}</ids:${facet.type}>`];
+}
+
+function serializeValue(element: string, value: IDSValue, indent: string): string[] {
+  if (value.type === 'simple') {
+    return [`${indent}<ids:${element}><ids:simpleValue>${escapeXml(value.value)}</ids:simpleValue></ids:${element}>`];
+  }
+
+  const facets: string[] = [];
+  value.enumeration?.forEach(v => facets.push(`<xs:enumeration${attribute('value', v)}/>`));
+  value.pattern?.forEach(v => facets.push(`<xs:pattern${attribute('value', v)}/>`));
+
+  const numericFacets = [
+    'length', 'minLength', 'maxLength',
+    'minInclusive', 'maxInclusive', 'minExclusive', 'maxExclusive',
+    'totalDigits', 'fractionDigits'
+  ] as const;
+  for (const facetName of numericFacets) {
+    const facetValue = value[facetName];
+    if (facetValue !== undefined) facets.push(`<xs:${facetName}${attribute('value', String(facetValue))}/>`);
+  }
+
+  return [
+    `${indent}<ids:${element}>`,
+    `${indent}  <xs:restriction${attribute('base', value.base)}>`,
+    ...facets.map(facet => `${indent}    ${facet}`),
+    `${indent}  </xs:restriction>`,
+    `${indent}</ids:${element}>`
+  ];
+}
+
+function attribute(name: string, value: string): string {
+  return ` ${name}="${escapeXml(value)}"`;
+}
+
+// Whitespace is escaped too, XML parsers normalize raw tabs and newlines in attribute values
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    .replace(/\t/g, '&#9;')
+    .replace(/\n/g, '&#10;')
+    .replace(/\r/g, '&#13;');
+}
@@ -0,0 +1,133 @@
+// IFC Materials - Walks material definitions (usages, layer/profile/constituent sets, lists) down to their materials
+import type { IfcAPI } from 'web-ifc';
+
+export type IFCMaterialKind =
+  | 'material'
+  | 'layerSet'
+  | 'layer'
+  | 'profileSet'
+  | 'profile'
+  | 'constituentSet'
+  | 'constituent'
+  | 'list';
+
+export interface IFCMaterialEntry {
+  kind: IFCMaterialKind;
+  id: number;
+  name: string | null;
+  category: string | null;
+  material?: { name: string | null, category: string | null }; // Material of a layer, profile or constituent
+  thickness?: number; // Layers only
+  fraction?: number; // Constituents only
+}
+
+type IfcLine = Record<string, unknown>;
+
+const unwrap = (obj: unknown): unknown => (typeof obj === 'object' && obj !== null ? (obj as IfcLine).value : obj);
+
+const getRef = (ref: unknown): number | null => {
+  const id = unwrap(ref);
+  return typeof id === 'number' && id > 0 ? id : null;
+};
+
+const getText = (obj: unknown): string | null => {
+  const value = unwrap(obj);
+  return value !== undefined && value !== null && value !== '' ? String(value) : null;
+};
+
+const getNumber = (obj: unknown): number | undefined => {
+  const value = Number(getText(obj) ?? NaN);
+  return Number.isFinite(value) ? value : undefined;
+};
+
+const getRefs = (refs: unknown): number[] =>
+  (Array.isArray(refs) ? refs : [refs]).map(getRef).filter((id): id is number => id !== null);
+
+// Flattens the material definition related by an IfcRelAssociatesMaterial, in document order
+export function getMaterialEntries(ifcApi: IfcAPI, modelID: number, materialId: number): IFCMaterialEntry[] {
+  const entries: IFCMaterialEntry[] = [];
+  const visited = new Set<number>();
+
+  const getLine = (id: number): IfcLine | null => {
+    try {
+      return ifcApi.GetLine(modelID, id);
+    } catch (e) {
+      return null;
+    }
+  };
+
+  const getMaterial = (ref: unknown) => {
+    const materialRef = getRef(ref);
+    const material = materialRef ? getLine(materialRef) : null;
+    return material ? { name: getText(material.Name), category: getText(material.Category) } : undefined;
+  };
+
+  const walk = (id: number | null) => {
+    if (!id || visited.has(id)) return;
+    visited.add(id);
+
+    const line = getLine(id);
+    if (!line) return;
+
+    switch (ifcApi.GetNameFromTypeCode(line.type as number)) {
+      case 'IFCMATERIAL':
+        entries.push({ kind: 'material', id, name: getText(line.Name), category: getText(line.Category) });
+        break;
+      case 'IFCMATERIALLAYERSETUSAGE':
+        walk(getRef(line.ForLayerSet));
+        break;
+      case 'IFCMATERIALLAYERSET':
+        entries.push({ kind: 'layerSet', id, name: getText(line.LayerSetName), category: null });
+        getRefs(line.MaterialLayers).forEach(walk);
+        break;
+      case 'IFCMATERIALLAYER':
+      case 'IFCMATERIALLAYERWITHOFFSETS':
+        entries.push({
+          kind: 'layer', id, name: getText(line.Name), category: getText(line.Category),
+          material: getMaterial(line.Material), thickness: getNumber(line.LayerThickness)
+        });
+        break;
+      case 'IFCMATERIALPROFILESETUSAGE':
+      case 'IFCMATERIALPROFILESETUSAGETAPERING':
+        walk(getRef(line.ForProfileSet));
+        walk(getRef(line.ForProfileEndSet));
+        break;
+      case 'IFCMATERIALPROFILESET':
+        entries.push({ kind: 'profileSet', id, name: getText(line.Name), category: null });
+        getRefs(line.MaterialProfiles).forEach(walk);
+        break;
+      case 'IFCMATERIALPROFILE':
+      case 'IFCMATERIALPROFILEWITHOFFSETS':
+        entries.push({ kind: 'profile', id, name: getText(line.Name), category: getText(line.Category), material: getMaterial(line.Material) });
+        break;
+      case 'IFCMATERIALCONSTITUENTSET':
+        entries.push({ kind: 'constituentSet', id, name: getText(line.Name), category: null });
+        getRefs(line.MaterialConstituents).forEach(walk);
+        break;
+      case 'IFCMATERIALCONSTITUENT':
+        entries.push({
+          kind: 'constituent', id, name: getText(line.Name), category: getText(line.Category),
+          material: getMaterial(line.Material), fraction: getNumber(line.Fraction)
+        });
+        break;
+      case 'IFCMATERIALLIST':
+        entries.push({ kind: 'list', id, name: null, category: null });
+        getRefs(line.Materials).forEach(walk);
+        break;
+    }
+  };
+
+  walk(materialId);
+  return entries;
+}
+
+// Every Name and Category an IDS material facet may match: materials, sets, layers, profiles and constituents
+export function getMaterialNames(entries: IFCMaterialEntry[]): string[] {
+  const names = new Set<string>();
+  for (const entry of entries) {
+    for (const value of [entry.name, entry.category, entry.material?.name, entry.material?.category]) {
+      if (value) names.add(value);
+    }
+  }
+  return [...names];
+}
@@ -0,0 +1,167 @@
+// IFC Properties - Reads property sets and quantity sets, keeping the IFC measure type of every value
+import type { IfcAPI } from 'web-ifc';
+
+export type IFCQuantityKind = 'length' | 'area' | 'volume' | 'count' | 'weight' | 'time';
+
+export type IFCPropertyRawValue = string | number | boolean;
+
+export interface IFCPropertyEntry {
+  name: string;
+  value: IFCPropertyRawValue | null;
+  values?: IFCPropertyRawValue[]; // IfcPropertyListValue and IfcPropertyEnumeratedValue
+  dataType: string | null; // IFC measure type, e.g. IFCLABEL or IFCLENGTHMEASURE
+  integer?: boolean; // Stored as an EXPRESS INTEGER (IfcInteger, IfcCountMeasure in IFC2X3...), compared exactly
+  quantity?: IFCQuantityKind; // Quantities of an IfcElementQuantity
+}
+
+export interface IFCPropertySetEntry {
+  id: number;
+  name: string | null;
+  properties: IFCPropertyEntry[];
+}
+
+type IfcLine = Record<string, unknown>;
+
+// web-ifc raw value type for INTEGER based measures
+export const WEBIFC_INTEGER = 10;
+
+const QUANTITY_ATTRIBUTES: [string, IFCQuantityKind][] = [
+  ['LengthValue', 'length'],
+  ['AreaValue', 'area'],
+  ['VolumeValue', 'volume'],
+  ['CountValue', 'count'],
+  ['WeightValue', 'weight'],
+  ['TimeValue', 'time']
+];
+
+const unwrap = (obj: unknown): unknown => {
+  if (obj === null || obj === undefined) return null;
+  if (typeof obj === 'object') {
+    const line = obj as IfcLine;
+    if (line.value !== undefined) return line.value;
+    if (line.Value !== undefined) return line.Value;
+    return null;
+  }
+  return obj;
+};
+
+const getRef = (ref: unknown): number | null => {
+  const id = unwrap(ref);
+  return typeof id === 'number' && id > 0 ? id : null;
+};
+
+const getRawValue = (obj: unknown): IFCPropertyRawValue | null => {
+  const value = unwrap(obj);
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean' ? value : null;
+};
+
+// web-ifc keeps the measure type of a typed value in its name, e.g. { type: 1, name: 'IFCLABEL', value: 'A' }
+const getDataType = (obj: unknown): string | null =>
+  typeof obj === 'object' && obj !== null && (obj as IfcLine).name ? String((obj as IfcLine).name).toUpperCase() : null;
+
+const isInteger = (obj: unknown): boolean =>
+  typeof obj === 'object' && obj !== null && (obj as IfcLine).type === WEBIFC_INTEGER;
+
+const getLine = (ifcApi: IfcAPI, modelID: number, id: number | null): IfcLine | null => {
+  if (!id) return null;
+  try {
+    return ifcApi.GetLine(modelID, id);
+  } catch (e) {
+    return null;
+  }
+};
+
+// Related object -> relationship ids for one relationship type (IfcRelDefinesByProperties, IfcRelAssociatesMaterial...)
+export function indexRelations(ifcApi: IfcAPI, modelID: number, relType: number, index: Map<number, number[]>) {
+  try {
+    const relIDs = ifcApi.GetLineIDsWithType(modelID, relType);
+    for (let i = 0; i < relIDs.size(); i++) {
+      const relID = relIDs.get(i);
+      const rel = getLine(ifcApi, modelID, relID);
+      if (!Array.isArray(rel?.RelatedObjects)) continue;
+      for (const objRef of rel.RelatedObjects) {
+        const objID = getRef(objRef);
+        if (!objID) continue;
+        const existing = index.get(objID) || [];
+        existing.push(relID);
+        index.set(objID, existing);
+      }
+    }
+  } catch (e) {
+    console.warn('Could not index relations:', e);
+  }
+}
+
+// Property definitions related to an object by its IfcRelDefinesByProperties relationships
+export function getPropertyDefinitionIds(ifcApi: IfcAPI, modelID: number, relIDs: number[]): number[] {
+  return relIDs
+    .map(relID => getRef(getLine(ifcApi, modelID, relID)?.RelatingPropertyDefinition))
+    .filter((id): id is number => id !== null);
+}
+
+// Property definitions of an object: those related by IfcRelDefinesByProperties (propertyRels, see indexRelations),
+// then for a type object those it holds in HasPropertySets. Types can use both.
+export function getObjectPropertySetIds(ifcApi: IfcAPI, modelID: number, objectID: number, propertyRels: Map<number, number[]>): number[] {
+  const ids = getPropertyDefinitionIds(ifcApi, modelID, propertyRels.get(objectID) || []);
+  const obj = getLine(ifcApi, modelID, objectID);
+  if (Array.isArray(obj?.HasPropertySets)) {
+    ids.push(...obj.HasPropertySets.map(getRef).filter((id: number | null): id is number => id !== null));
+  }
+  return ids;
+}
+
+// IfcPropertySet or IfcElementQuantity, properties without a value are left out
+export function readPropertySet(ifcApi: IfcAPI, modelID: number, propDefID: number): IFCPropertySetEntry | null {
+  const propDef = getLine(ifcApi, modelID, propDefID);
+  if (!propDef) return null;
+
+  const properties: IFCPropertyEntry[] = [];
+
+  if (Array.isArray(propDef.HasProperties)) {
+    for (const propRef of propDef.HasProperties) {
+      const prop = readProperty(getLine(ifcApi, modelID, getRef(propRef)));
+      if (prop) properties.push(prop);
+    }
+  } else if (Array.isArray(propDef.Quantities)) {
+    for (const qtyRef of propDef.Quantities) {
+      const qty = readQuantity(getLine(ifcApi, modelID, getRef(qtyRef)));
+      if (qty) properties.push(qty);
+    }
+  }
+
+  const name = getRawValue(propDef.Name);
+  return { id: propDefID, name: name === null ? null : String(name), properties };
+}
+
+function readProperty(propLine: IfcLine | null): IFCPropertyEntry | null {
+  if (!propLine) return null;
+  const name = String(getRawValue(propLine.Name) || 'Unknown');
+
+  // IfcPropertySingleValue
+  if (propLine.NominalValue !== undefined) {
+    const value = getRawValue(propLine.NominalValue);
+    return value === null ? null : { name, value, dataType: getDataType(propLine.NominalValue), integer: isInteger(propLine.NominalValue) };
+  }
+
+  // IfcPropertyListValue, IfcPropertyEnumeratedValue
+  const list = Array.isArray(propLine.ListValues) ? propLine.ListValues
+    : Array.isArray(propLine.EnumerationValues) ? propLine.EnumerationValues
+      : null;
+  if (!list) return null;
+
+  const values = list.map(getRawValue).filter((v: IFCPropertyRawValue | null): v is IFCPropertyRawValue => v !== null);
+  if (values.length === 0) return null;
+  return { name, value: values.join(', '), values, dataType: getDataType(list[0]), integer: isInteger(list[0]) };
+}
+
+function readQuantity(qtyLine: IfcLine | null): IFCPropertyEntry | null {
+  if (!qtyLine) return null;
+  const name = String(getRawValue(qtyLine.Name) || 'Unknown');
+
+  for (const [attribute, quantity] of QUANTITY_ATTRIBUTES) {
+    if (qtyLine[attribute] === undefined) continue;
+    const value = getRawValue(qtyLine[attribute]);
+    return value === null ? null : { name, value, dataType: getDataType(qtyLine[attribute]), integer: isInteger(qtyLine[attribute]), quantity };
+  }
+  return null;
+}
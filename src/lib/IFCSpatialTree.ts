@@ -0,0 +1,119 @@
+// IFC Spatial Tree - Project > site > building > storey > space > element hierarchy
+// Built from IfcRelAggregates (decomposition) and IfcRelContainedInSpatialStructure (containment)
+import type { IfcAPI } from 'web-ifc';
+
+// Type codes are kept here so that web-ifc stays lazily loaded by the viewer
+const IFCPROJECT = 103090709;
+const IFCSPATIALSTRUCTUREELEMENT = 2706606064;
+const IFCRELAGGREGATES = 160246688;
+const IFCRELCONTAINEDINSPATIALSTRUCTURE = 3242617779;
+
+export interface SpatialTreeNode {
+  expressID: number;
+  type: string; // IFC entity, e.g. IFCBUILDINGSTOREY
+  name: string;
+  spatial: boolean; // Project or spatial structure element, as opposed to a contained element
+  elementCount: number; // Elements anywhere below the node
+  children: SpatialTreeNode[];
+}
+
+type IfcLine = Record<string, unknown>;
+
+const getRef = (ref: unknown): number | null => {
+  const id = typeof ref === 'object' && ref !== null ? (ref as IfcLine).value : ref;
+  return typeof id === 'number' && id > 0 ? id : null;
+};
+
+const getText = (obj: unknown): string | null => {
+  const value = typeof obj === 'object' && obj !== null ? (obj as IfcLine).value : obj;
+  return typeof value === 'string' && value !== '' ? value : null;
+};
+
+const getIds = (ifcApi: IfcAPI, modelID: number, type: number, includeInherited = false): number[] => {
+  const ids: number[] = [];
+  try {
+    const lineIds = ifcApi.GetLineIDsWithType(modelID, type, includeInherited);
+    for (let i = 0; i < lineIds.size(); i++) ids.push(lineIds.get(i));
+  } catch (e) {
+    console.warn('Could not list IFC objects:', e);
+  }
+  return ids;
+};
+
+// Parent -> children for one relationship type, in the order of the file
+function indexChildren(ifcApi: IfcAPI, modelID: number, relType: number, parentAttr: string, childrenAttr: string, index: Map<number, number[]>) {
+  for (const relId of getIds(ifcApi, modelID, relType)) {
+    try {
+      const rel = ifcApi.GetLine(modelID, relId);
+      const parentId = getRef(rel?.[parentAttr]);
+      if (!parentId || !Array.isArray(rel[childrenAttr])) continue;
+      const children = index.get(parentId) || [];
+      for (const childRef of rel[childrenAttr]) {
+        const childId = getRef(childRef);
+        if (childId) children.push(childId);
+      }
+      index.set(parentId, children);
+    } catch (e) {
+      // Relationship not readable
+    }
+  }
+}
+
+// One root per IfcProject. Spatial children keep the order of the file, contained elements are sorted by type then name.
+export function buildSpatialTree(ifcApi: IfcAPI, modelID: number): SpatialTreeNode[] {
+  const children = new Map<number, number[]>();
+  indexChildren(ifcApi, modelID, IFCRELAGGREGATES, 'RelatingObject', 'RelatedObjects', children);
+  indexChildren(ifcApi, modelID, IFCRELCONTAINEDINSPATIALSTRUCTURE, 'RelatingStructure', 'RelatedElements', children);
+
+  const projectIds = getIds(ifcApi, modelID, IFCPROJECT);
+  const spatialIds = new Set([...projectIds, ...getIds(ifcApi, modelID, IFCSPATIALSTRUCTUREELEMENT, true)]);
+  // An object appears once even if the file relates it twice
+  const visited = new Set<number>();
+
+  const buildNode = (expressID: number): SpatialTreeNode => {
+    visited.add(expressID);
+
+    let type = 'Unknown';
+    let name = `#${expressID}`;
+    try {
+      const line = ifcApi.GetLine(modelID, expressID);
+      type = ifcApi.GetNameFromTypeCode(line.type) || type;
+      name = getText(line.LongName) && getText(line.Name)
+        ? `${getText(line.Name)} - ${getText(line.LongName)}`
+        : getText(line.Name) || getText(line.LongName) || name;
+    } catch (e) {
+      // Object not readable, shown by its id
+    }
+
+    const childNodes: SpatialTreeNode[] = [];
+    for (const childId of children.get(expressID) || []) {
+      if (!visited.has(childId)) childNodes.push(buildNode(childId));
+    }
+    const spatialChildren = childNodes.filter(node => node.spatial);
+    const elements = childNodes
+      .filter(node => !node.spatial)
+      .sort((a, b) => a.type.localeCompare(b.type) || a.name.localeCompare(b.name));
+
+    return {
+      expressID,
+      type,
+      name,
+      spatial: spatialIds.has(expressID),
+      elementCount: childNodes.reduce((acc, node) => acc + node.elementCount + (node.spatial ? 0 : 1), 0),
+      children: [...spatialChildren, ...elements]
+    };
+  };
+
+  return projectIds.map(buildNode);
+}
+
+// The node and everything below it
+export function getSubtreeIds(node: SpatialTreeNode): number[] {
+  const ids: number[] = [];
+  const walk = (current: SpatialTreeNode) => {
+    ids.push(current.expressID);
+    current.children.forEach(walk);
+  };
+  walk(node);
+  return ids;
+}